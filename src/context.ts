@@ -13,9 +13,43 @@ import type {
   PgRole,
   PgForeignKey,
   PgExtension,
+  PgFunction,
+  PgConstraint,
+  PgSequence,
+  PgPartitionedTable,
+  PgPartition,
+  PgAuthMember,
+  PgForeignDataWrapper,
+  PgForeignServer,
+  PgForeignTable,
+  PgExtensionMember,
+  PgPublication,
+  PgPublicationRel,
+  PgSubscription,
+  PgEventTrigger,
+  PgViewDefinition,
+  PgRule,
+  PgDepend,
+  PgRange,
+  PgDomainConstraint,
+  PgEnumUsage,
+  PgRelationStorage,
+  PgStatUserTable,
+  PgStatUserIndex,
+  PgStatUserFunction,
+  PgColumnStatistics,
+  PgStatisticExt,
+  PgInherits,
+  PgCollation,
+  PgCast,
+  PgOperator,
+  PgAggregate,
 } from "./types.js";
 import { PgDatabaseSchema } from "./types.js";
 import { createLoaders } from "./loaders.js";
+import type { DescriptionKey } from "./loaders/pg_descriptions.js";
+import type { ExtensionMemberKey } from "./loaders/pg_extension_members.js";
+import type { DependencyKey } from "./loaders/pg_depends.js";
 
 /**
  * Request context interface for GraphQL resolvers
@@ -25,6 +59,9 @@ export interface ReqContext {
   /** PostgreSQL client for direct database access */
   client: pg.Client | pg.PoolClient;
 
+  /** Server options controlling what the API may reveal */
+  options: ServerOptions;
+
   /**
    * Resolver functions that efficiently load and cache data
    * These use the dataSources cache to avoid redundant queries
@@ -41,6 +78,11 @@ export interface ReqContext {
   resolveRoles: (filter?: (role: PgRole) => boolean) => Promise<PgRole[]>;
   resolveForeignKeys: (filter?: (fk: PgForeignKey) => boolean) => Promise<PgForeignKey[]>;
   resolveExtensions: (filter?: (ext: PgExtension) => boolean) => Promise<PgExtension[]>;
+  resolveForeignServers: (filter?: (srv: PgForeignServer) => boolean) => Promise<PgForeignServer[]>;
+  resolvePublications: (filter?: (pub: PgPublication) => boolean) => Promise<PgPublication[]>;
+  resolveSubscriptions: (filter?: (sub: PgSubscription) => boolean) => Promise<PgSubscription[]>;
+  resolveEventTriggers: (filter?: (evt: PgEventTrigger) => boolean) => Promise<PgEventTrigger[]>;
+  resolveCasts: (filter?: (cast: PgCast) => boolean) => Promise<PgCast[]>;
 
   /**
    * DataLoaders for efficient batched SQL queries
@@ -49,6 +91,7 @@ export interface ReqContext {
    */
   typeLoader: DataLoader<number, PgType | null>;
   typeByNameLoader: DataLoader<{ schemaName: string; typeName: string }, PgType | null, string>;
+  typesByNamespaceLoader: DataLoader<number, PgType[]>;
   classLoader: DataLoader<number, PgClass | null>;
   classByNameLoader: DataLoader<{ schema: string; name: string }, PgClass | null>;
   classesByNamespaceLoader: DataLoader<{ namespaceOid: number; relkind?: string }, PgClass[]>;
@@ -74,6 +117,56 @@ export interface ReqContext {
   extensionLoader: DataLoader<number, PgExtension | null>;
   extensionByNameLoader: DataLoader<string, PgExtension | null>;
   extensionsBySchemaLoader: DataLoader<number, PgExtension[]>;
+  functionLoader: DataLoader<number, PgFunction | null>;
+  functionsByNamespaceLoader: DataLoader<number, PgFunction[]>;
+  constraintLoader: DataLoader<number, PgConstraint | null>;
+  constraintsByRelationLoader: DataLoader<number, PgConstraint[]>;
+  sequenceLoader: DataLoader<number, PgSequence | null>;
+  sequencesByOwnerRelationLoader: DataLoader<number, PgSequence[]>;
+  partitionedTableLoader: DataLoader<number, PgPartitionedTable | null>;
+  partitionLoader: DataLoader<number, PgPartition | null>;
+  partitionsByParentLoader: DataLoader<number, PgPartition[]>;
+  descriptionLoader: DataLoader<DescriptionKey, string | null, string>;
+  membershipsByMemberLoader: DataLoader<number, PgAuthMember[]>;
+  membershipsByRoleLoader: DataLoader<number, PgAuthMember[]>;
+  foreignDataWrapperLoader: DataLoader<number, PgForeignDataWrapper | null>;
+  foreignServerLoader: DataLoader<number, PgForeignServer | null>;
+  foreignServersByWrapperLoader: DataLoader<number, PgForeignServer[]>;
+  foreignTableLoader: DataLoader<number, PgForeignTable | null>;
+  foreignTablesByServerLoader: DataLoader<number, PgForeignTable[]>;
+  extensionMembersByExtensionLoader: DataLoader<number, PgExtensionMember[]>;
+  extensionOwnerLoader: DataLoader<ExtensionMemberKey, number | null, string>;
+  publicationLoader: DataLoader<number, PgPublication | null>;
+  publicationRelsByPublicationLoader: DataLoader<number, PgPublicationRel[]>;
+  publicationRelsByRelationLoader: DataLoader<number, PgPublicationRel[]>;
+  subscriptionLoader: DataLoader<number, PgSubscription | null>;
+  eventTriggerLoader: DataLoader<number, PgEventTrigger | null>;
+  viewDefinitionLoader: DataLoader<number, PgViewDefinition | null>;
+  ruleLoader: DataLoader<number, PgRule | null>;
+  rulesByRelationLoader: DataLoader<number, PgRule[]>;
+  dependentsLoader: DataLoader<DependencyKey, PgDepend[], string>;
+  dependenciesLoader: DataLoader<DependencyKey, PgDepend[], string>;
+  rangeLoader: DataLoader<number, PgRange | null>;
+  rangeByMultirangeLoader: DataLoader<number, PgRange | null>;
+  domainConstraintsByTypeLoader: DataLoader<number, PgDomainConstraint[]>;
+  enumUsagesByTypeLoader: DataLoader<number, PgEnumUsage[]>;
+  relationStorageLoader: DataLoader<number, PgRelationStorage | null>;
+  tableStatisticsLoader: DataLoader<number, PgStatUserTable | null>;
+  indexStatisticsLoader: DataLoader<number, PgStatUserIndex | null>;
+  functionStatisticsLoader: DataLoader<number, PgStatUserFunction | null>;
+  columnStatisticsByRelationLoader: DataLoader<number, PgColumnStatistics[]>;
+  statisticExtLoader: DataLoader<number, PgStatisticExt | null>;
+  statisticExtByRelationLoader: DataLoader<number, PgStatisticExt[]>;
+  statisticExtByNamespaceLoader: DataLoader<number, PgStatisticExt[]>;
+  inheritsByChildLoader: DataLoader<number, PgInherits[]>;
+  inheritsByParentLoader: DataLoader<number, PgInherits[]>;
+  collationLoader: DataLoader<number, PgCollation | null>;
+  collationsByNamespaceLoader: DataLoader<number, PgCollation[]>;
+  castLoader: DataLoader<number, PgCast | null>;
+  operatorLoader: DataLoader<number, PgOperator | null>;
+  operatorsByNamespaceLoader: DataLoader<number, PgOperator[]>;
+  aggregateLoader: DataLoader<number, PgAggregate | null>;
+  aggregatesByNamespaceLoader: DataLoader<number, PgAggregate[]>;
 
   /**
    * Cached data sources to avoid redundant queries
@@ -92,6 +185,11 @@ export interface ReqContext {
     roles?: PgRole[];
     foreignKeys?: PgForeignKey[];
     extensions?: PgExtension[];
+    foreignServers?: PgForeignServer[];
+    publications?: PgPublication[];
+    subscriptions?: PgSubscription[];
+    eventTriggers?: PgEventTrigger[];
+    casts?: PgCast[];
   };
 
   /**
@@ -117,6 +215,17 @@ export interface DbConfig {
   port: number;
 }
 
+/**
+ * Server options interface
+ */
+export interface ServerOptions {
+  /**
+   * Expose sample column values from pg_stats (most common values, histogram bounds).
+   * These are copies of table data, so they are off unless explicitly enabled.
+   */
+  exposeColumnStatisticsValues?: boolean;
+}
+
 /**
  * Properly release a database client based on its type
  * @param client - The PostgreSQL client to release
@@ -145,12 +254,14 @@ function hasDatabase(
  * @param dbConfig - Database connection configuration
  * @param existingClient - Optional existing database client to use instead of creating a new one
  * @param loaderFactory - Factory function for creating data loaders (for testing)
+ * @param options - Server options controlling what the API may reveal
  * @returns A request context object for GraphQL resolvers
  */
 export async function context(
   dbConfig: DbConfig,
   existingClient?: pg.Client | pg.PoolClient,
-  loaderFactory = createLoaders
+  loaderFactory = createLoaders,
+  options: ServerOptions = {}
 ): Promise<ReqContext> {
   const client = existingClient || new pg.Client(dbConfig);
   if (!existingClient) {
@@ -178,6 +289,7 @@ export async function context(
     // Return the complete context object with proper type assertions
     const contextObj: ReqContext = {
       client,
+      options,
       dataSources,
       resolveDatabase,
       ...resolvers,
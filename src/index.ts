@@ -4,7 +4,7 @@ import { startStandaloneServer } from "@apollo/server/standalone";
 import { readFileSync } from "fs";
 import { gql } from "graphql-tag";
 import { resolvers } from "./resolvers.js";
-import type { DbConfig, ReqContext } from "./context.js";
+import type { DbConfig, ReqContext, ServerOptions } from "./context.js";
 import { context, releaseClient } from "./context.js";
 import depthLimit from "graphql-depth-limit";
 import { createComplexityLimitRule } from "graphql-validation-complexity";
@@ -20,6 +20,10 @@ export const dbConfig: DbConfig = {
   port: process.env.PG_PORT ? parseInt(process.env.PG_PORT, 10) : 5435,
 };
 
+export const serverOptions: ServerOptions = {
+  exposeColumnStatisticsValues: process.env.EXPOSE_COLUMN_STATISTICS_VALUES === "true",
+};
+
 const typeDefs = gql(readFileSync("src/schema.graphql", "utf8"));
 
 // Create complexity limit rule with specified costs
@@ -60,7 +64,7 @@ if (process.env.NODE_ENV !== "test") {
   (async () => {
     const { url } = await startStandaloneServer(server, {
       listen: { port: 4000 },
-      context: () => context(dbConfig),
+      context: () => context(dbConfig, undefined, undefined, serverOptions),
     });
 
     // console.log(`server ready at: ${url}`);
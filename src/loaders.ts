@@ -11,6 +11,41 @@ import { createIndexLoaders } from "./loaders/pg_indexes.js";
 import { createRoleLoaders } from "./loaders/pg_roles.js";
 import { createForeignKeyLoaders } from "./loaders/pg_foreign_keys.js";
 import { createExtensionLoaders } from "./loaders/pg_extensions.js";
+import { createFunctionLoaders } from "./loaders/pg_functions.js";
+import { createConstraintLoaders } from "./loaders/pg_constraints.js";
+import { createSequenceLoaders } from "./loaders/pg_sequences.js";
+import { createPartitionedTableLoaders } from "./loaders/pg_partitioned_tables.js";
+import { createPartitionLoaders } from "./loaders/pg_partitions.js";
+import { createDescriptionLoaders } from "./loaders/pg_descriptions.js";
+import { createAuthMemberLoaders } from "./loaders/pg_auth_members.js";
+import { createForeignDataWrapperLoaders } from "./loaders/pg_foreign_data_wrappers.js";
+import { createForeignServerLoaders } from "./loaders/pg_foreign_servers.js";
+import { createForeignTableLoaders } from "./loaders/pg_foreign_tables.js";
+import { createExtensionMemberLoaders } from "./loaders/pg_extension_members.js";
+import { createPublicationLoaders } from "./loaders/pg_publications.js";
+import { createPublicationRelLoaders } from "./loaders/pg_publication_rels.js";
+import { createSubscriptionLoaders } from "./loaders/pg_subscriptions.js";
+import { createEventTriggerLoaders } from "./loaders/pg_event_triggers.js";
+import { createViewDefinitionLoaders } from "./loaders/pg_view_definitions.js";
+import { createRuleLoaders } from "./loaders/pg_rules.js";
+import { createDependLoaders } from "./loaders/pg_depends.js";
+import { createRangeLoaders } from "./loaders/pg_ranges.js";
+import { createDomainConstraintLoaders } from "./loaders/pg_domain_constraints.js";
+import { createEnumUsageLoaders } from "./loaders/pg_enum_usages.js";
+import { createRelationStorageLoaders } from "./loaders/pg_relation_storage.js";
+import { createTableStatisticsLoaders } from "./loaders/pg_stat_user_tables.js";
+import { createIndexStatisticsLoaders } from "./loaders/pg_stat_user_indexes.js";
+import { createFunctionStatisticsLoaders } from "./loaders/pg_stat_user_functions.js";
+import { createColumnStatisticsLoaders } from "./loaders/pg_stats.js";
+import { createStatisticExtLoaders } from "./loaders/pg_statistic_ext.js";
+import { createInheritsLoaders } from "./loaders/pg_inherits.js";
+import { createCollationLoaders } from "./loaders/pg_collations.js";
+import { createCastLoaders } from "./loaders/pg_casts.js";
+import { createOperatorLoaders } from "./loaders/pg_operators.js";
+import { createAggregateLoaders } from "./loaders/pg_aggregates.js";
+import type { DescriptionKey } from "./loaders/pg_descriptions.js";
+import type { ExtensionMemberKey } from "./loaders/pg_extension_members.js";
+import type { DependencyKey } from "./loaders/pg_depends.js";
 import type {
   PgDatabase,
   PgNamespace,
@@ -24,6 +59,37 @@ import type {
   PgRole,
   PgForeignKey,
   PgExtension,
+  PgFunction,
+  PgConstraint,
+  PgSequence,
+  PgPartitionedTable,
+  PgPartition,
+  PgAuthMember,
+  PgForeignDataWrapper,
+  PgForeignServer,
+  PgForeignTable,
+  PgExtensionMember,
+  PgPublication,
+  PgPublicationRel,
+  PgSubscription,
+  PgEventTrigger,
+  PgViewDefinition,
+  PgRule,
+  PgDepend,
+  PgRange,
+  PgDomainConstraint,
+  PgEnumUsage,
+  PgRelationStorage,
+  PgStatUserTable,
+  PgStatUserIndex,
+  PgStatUserFunction,
+  PgColumnStatistics,
+  PgStatisticExt,
+  PgInherits,
+  PgCollation,
+  PgCast,
+  PgOperator,
+  PgAggregate,
 } from "./types.js";
 
 interface DataSources {
@@ -39,6 +105,11 @@ interface DataSources {
   roles?: PgRole[];
   foreignKeys?: PgForeignKey[];
   extensions?: PgExtension[];
+  foreignServers?: PgForeignServer[];
+  publications?: PgPublication[];
+  subscriptions?: PgSubscription[];
+  eventTriggers?: PgEventTrigger[];
+  casts?: PgCast[];
 }
 
 // Type guard functions for data sources
@@ -86,6 +157,32 @@ function hasExtensions(ds: DataSources): ds is DataSources & { extensions: PgExt
   return !!ds.extensions;
 }
 
+function hasForeignServers(
+  ds: DataSources
+): ds is DataSources & { foreignServers: PgForeignServer[] } {
+  return !!ds.foreignServers;
+}
+
+function hasPublications(ds: DataSources): ds is DataSources & { publications: PgPublication[] } {
+  return !!ds.publications;
+}
+
+function hasSubscriptions(
+  ds: DataSources
+): ds is DataSources & { subscriptions: PgSubscription[] } {
+  return !!ds.subscriptions;
+}
+
+function hasEventTriggers(
+  ds: DataSources
+): ds is DataSources & { eventTriggers: PgEventTrigger[] } {
+  return !!ds.eventTriggers;
+}
+
+function hasCasts(ds: DataSources): ds is DataSources & { casts: PgCast[] } {
+  return !!ds.casts;
+}
+
 /**
  * Creates all DataLoaders for PostgreSQL database entities.
  * Centralizes loader creation logic in one place for better organization.
@@ -112,6 +209,7 @@ export function createLoaders(client: Client | PoolClient): {
     policiesByRelationLoader: DataLoader<number, PgPolicy[]>;
     typeLoader: DataLoader<number, PgType | null>;
     typeByNameLoader: DataLoader<{ schemaName: string; typeName: string }, PgType | null, string>;
+    typesByNamespaceLoader: DataLoader<number, PgType[]>;
     enumByTypeIdLoader: DataLoader<number, PgEnum | null>;
     enumByNameLoader: DataLoader<{ schemaName: string; enumName: string }, PgEnum | null, string>;
     indexLoader: DataLoader<number, PgIndex | null>;
@@ -124,6 +222,56 @@ export function createLoaders(client: Client | PoolClient): {
     extensionLoader: DataLoader<number, PgExtension | null>;
     extensionByNameLoader: DataLoader<string, PgExtension | null>;
     extensionsBySchemaLoader: DataLoader<number, PgExtension[]>;
+    functionLoader: DataLoader<number, PgFunction | null>;
+    functionsByNamespaceLoader: DataLoader<number, PgFunction[]>;
+    constraintLoader: DataLoader<number, PgConstraint | null>;
+    constraintsByRelationLoader: DataLoader<number, PgConstraint[]>;
+    sequenceLoader: DataLoader<number, PgSequence | null>;
+    sequencesByOwnerRelationLoader: DataLoader<number, PgSequence[]>;
+    partitionedTableLoader: DataLoader<number, PgPartitionedTable | null>;
+    partitionLoader: DataLoader<number, PgPartition | null>;
+    partitionsByParentLoader: DataLoader<number, PgPartition[]>;
+    descriptionLoader: DataLoader<DescriptionKey, string | null, string>;
+    membershipsByMemberLoader: DataLoader<number, PgAuthMember[]>;
+    membershipsByRoleLoader: DataLoader<number, PgAuthMember[]>;
+    foreignDataWrapperLoader: DataLoader<number, PgForeignDataWrapper | null>;
+    foreignServerLoader: DataLoader<number, PgForeignServer | null>;
+    foreignServersByWrapperLoader: DataLoader<number, PgForeignServer[]>;
+    foreignTableLoader: DataLoader<number, PgForeignTable | null>;
+    foreignTablesByServerLoader: DataLoader<number, PgForeignTable[]>;
+    extensionMembersByExtensionLoader: DataLoader<number, PgExtensionMember[]>;
+    extensionOwnerLoader: DataLoader<ExtensionMemberKey, number | null, string>;
+    publicationLoader: DataLoader<number, PgPublication | null>;
+    publicationRelsByPublicationLoader: DataLoader<number, PgPublicationRel[]>;
+    publicationRelsByRelationLoader: DataLoader<number, PgPublicationRel[]>;
+    subscriptionLoader: DataLoader<number, PgSubscription | null>;
+    eventTriggerLoader: DataLoader<number, PgEventTrigger | null>;
+    viewDefinitionLoader: DataLoader<number, PgViewDefinition | null>;
+    ruleLoader: DataLoader<number, PgRule | null>;
+    rulesByRelationLoader: DataLoader<number, PgRule[]>;
+    dependentsLoader: DataLoader<DependencyKey, PgDepend[], string>;
+    dependenciesLoader: DataLoader<DependencyKey, PgDepend[], string>;
+    rangeLoader: DataLoader<number, PgRange | null>;
+    rangeByMultirangeLoader: DataLoader<number, PgRange | null>;
+    domainConstraintsByTypeLoader: DataLoader<number, PgDomainConstraint[]>;
+    enumUsagesByTypeLoader: DataLoader<number, PgEnumUsage[]>;
+    relationStorageLoader: DataLoader<number, PgRelationStorage | null>;
+    tableStatisticsLoader: DataLoader<number, PgStatUserTable | null>;
+    indexStatisticsLoader: DataLoader<number, PgStatUserIndex | null>;
+    functionStatisticsLoader: DataLoader<number, PgStatUserFunction | null>;
+    columnStatisticsByRelationLoader: DataLoader<number, PgColumnStatistics[]>;
+    statisticExtLoader: DataLoader<number, PgStatisticExt | null>;
+    statisticExtByRelationLoader: DataLoader<number, PgStatisticExt[]>;
+    statisticExtByNamespaceLoader: DataLoader<number, PgStatisticExt[]>;
+    inheritsByChildLoader: DataLoader<number, PgInherits[]>;
+    inheritsByParentLoader: DataLoader<number, PgInherits[]>;
+    collationLoader: DataLoader<number, PgCollation | null>;
+    collationsByNamespaceLoader: DataLoader<number, PgCollation[]>;
+    castLoader: DataLoader<number, PgCast | null>;
+    operatorLoader: DataLoader<number, PgOperator | null>;
+    operatorsByNamespaceLoader: DataLoader<number, PgOperator[]>;
+    aggregateLoader: DataLoader<number, PgAggregate | null>;
+    aggregatesByNamespaceLoader: DataLoader<number, PgAggregate[]>;
   };
   resolvers: {
     resolveNamespaces: (filter?: (ns: PgNamespace) => boolean) => Promise<PgNamespace[]>;
@@ -137,6 +285,13 @@ export function createLoaders(client: Client | PoolClient): {
     resolveRoles: (filter?: (role: PgRole) => boolean) => Promise<PgRole[]>;
     resolveForeignKeys: (filter?: (fk: PgForeignKey) => boolean) => Promise<PgForeignKey[]>;
     resolveExtensions: (filter?: (ext: PgExtension) => boolean) => Promise<PgExtension[]>;
+    resolveForeignServers: (
+      filter?: (srv: PgForeignServer) => boolean
+    ) => Promise<PgForeignServer[]>;
+    resolvePublications: (filter?: (pub: PgPublication) => boolean) => Promise<PgPublication[]>;
+    resolveSubscriptions: (filter?: (sub: PgSubscription) => boolean) => Promise<PgSubscription[]>;
+    resolveEventTriggers: (filter?: (evt: PgEventTrigger) => boolean) => Promise<PgEventTrigger[]>;
+    resolveCasts: (filter?: (cast: PgCast) => boolean) => Promise<PgCast[]>;
   };
   dataSources: DataSources;
 } {
@@ -176,6 +331,102 @@ export function createLoaders(client: Client | PoolClient): {
   // Create extension loaders
   const extensionLoaders = createExtensionLoaders(client);
 
+  // Create function loaders
+  const functionLoaders = createFunctionLoaders(client);
+
+  // Create constraint loaders
+  const constraintLoaders = createConstraintLoaders(client);
+
+  // Create sequence loaders
+  const sequenceLoaders = createSequenceLoaders(client);
+
+  // Create partitioned table loaders
+  const partitionedTableLoaders = createPartitionedTableLoaders(client);
+
+  // Create partition loaders
+  const partitionLoaders = createPartitionLoaders(client);
+
+  // Create description loaders
+  const descriptionLoaders = createDescriptionLoaders(client);
+
+  // Create role membership loaders
+  const authMemberLoaders = createAuthMemberLoaders(client);
+
+  // Create foreign data wrapper loaders
+  const foreignDataWrapperLoaders = createForeignDataWrapperLoaders(client);
+
+  // Create foreign server loaders
+  const foreignServerLoaders = createForeignServerLoaders(client);
+
+  // Create foreign table loaders
+  const foreignTableLoaders = createForeignTableLoaders(client);
+
+  // Create extension member loaders
+  const extensionMemberLoaders = createExtensionMemberLoaders(client);
+
+  // Create publication loaders
+  const publicationLoaders = createPublicationLoaders(client);
+
+  // Create publication table loaders
+  const publicationRelLoaders = createPublicationRelLoaders(client);
+
+  // Create subscription loaders
+  const subscriptionLoaders = createSubscriptionLoaders(client);
+
+  // Create event trigger loaders
+  const eventTriggerLoaders = createEventTriggerLoaders(client);
+
+  // Create view definition loaders
+  const viewDefinitionLoaders = createViewDefinitionLoaders(client);
+
+  // Create rule loaders
+  const ruleLoaders = createRuleLoaders(client);
+
+  // Create dependency loaders
+  const dependLoaders = createDependLoaders(client);
+
+  // Create range loaders
+  const rangeLoaders = createRangeLoaders(client);
+
+  // Create domain constraint loaders
+  const domainConstraintLoaders = createDomainConstraintLoaders(client);
+
+  // Create enum usage loaders
+  const enumUsageLoaders = createEnumUsageLoaders(client);
+
+  // Create relation storage loaders
+  const relationStorageLoaders = createRelationStorageLoaders(client);
+
+  // Create table statistics loaders
+  const tableStatisticsLoaders = createTableStatisticsLoaders(client);
+
+  // Create index statistics loaders
+  const indexStatisticsLoaders = createIndexStatisticsLoaders(client);
+
+  // Create function statistics loaders
+  const functionStatisticsLoaders = createFunctionStatisticsLoaders(client);
+
+  // Create column statistics loaders
+  const columnStatisticsLoaders = createColumnStatisticsLoaders(client);
+
+  // Create extended statistics loaders
+  const statisticExtLoaders = createStatisticExtLoaders(client);
+
+  // Create inheritance loaders
+  const inheritsLoaders = createInheritsLoaders(client);
+
+  // Create collation loaders
+  const collationLoaders = createCollationLoaders(client);
+
+  // Create cast loaders
+  const castLoaders = createCastLoaders(client);
+
+  // Create operator loaders
+  const operatorLoaders = createOperatorLoaders(client);
+
+  // Create aggregate loaders
+  const aggregateLoaders = createAggregateLoaders(client);
+
   // Create resolver functions with type-safe data source access
   const resolvers = {
     // Namespaces resolver with caching
@@ -331,6 +582,76 @@ export function createLoaders(client: Client | PoolClient): {
 
       return filter ? extensions.filter(filter) : extensions;
     },
+
+    // ForeignServers resolver with caching
+    resolveForeignServers: async (filter?: (srv: PgForeignServer) => boolean) => {
+      if (hasForeignServers(dataSources) && !filter) {
+        return dataSources.foreignServers;
+      }
+
+      const foreignServers = await foreignServerLoaders.getAllForeignServers();
+      if (!filter) {
+        dataSources.foreignServers = foreignServers;
+      }
+
+      return filter ? foreignServers.filter(filter) : foreignServers;
+    },
+
+    // Publications resolver with caching
+    resolvePublications: async (filter?: (pub: PgPublication) => boolean) => {
+      if (hasPublications(dataSources) && !filter) {
+        return dataSources.publications;
+      }
+
+      const publications = await publicationLoaders.getAllPublications();
+      if (!filter) {
+        dataSources.publications = publications;
+      }
+
+      return filter ? publications.filter(filter) : publications;
+    },
+
+    // Subscriptions resolver with caching
+    resolveSubscriptions: async (filter?: (sub: PgSubscription) => boolean) => {
+      if (hasSubscriptions(dataSources) && !filter) {
+        return dataSources.subscriptions;
+      }
+
+      const subscriptions = await subscriptionLoaders.getAllSubscriptions();
+      if (!filter) {
+        dataSources.subscriptions = subscriptions;
+      }
+
+      return filter ? subscriptions.filter(filter) : subscriptions;
+    },
+
+    // EventTriggers resolver with caching
+    resolveEventTriggers: async (filter?: (evt: PgEventTrigger) => boolean) => {
+      if (hasEventTriggers(dataSources) && !filter) {
+        return dataSources.eventTriggers;
+      }
+
+      const eventTriggers = await eventTriggerLoaders.getAllEventTriggers();
+      if (!filter) {
+        dataSources.eventTriggers = eventTriggers;
+      }
+
+      return filter ? eventTriggers.filter(filter) : eventTriggers;
+    },
+
+    // Casts resolver with caching
+    resolveCasts: async (filter?: (cast: PgCast) => boolean) => {
+      if (hasCasts(dataSources) && !filter) {
+        return dataSources.casts;
+      }
+
+      const casts = await castLoaders.getAllCasts();
+      if (!filter) {
+        dataSources.casts = casts;
+      }
+
+      return filter ? casts.filter(filter) : casts;
+    },
   };
 
   // Collect all loaders in a flat structure
@@ -359,6 +680,7 @@ export function createLoaders(client: Client | PoolClient): {
     // Type loaders
     typeLoader: typeLoaders.typeLoader,
     typeByNameLoader: typeLoaders.typeByNameLoader,
+    typesByNamespaceLoader: typeLoaders.typesByNamespaceLoader,
 
     // Enum loaders
     enumByTypeIdLoader: enumLoaders.enumByTypeIdLoader,
@@ -381,6 +703,120 @@ export function createLoaders(client: Client | PoolClient): {
     extensionLoader: extensionLoaders.extensionLoader,
     extensionByNameLoader: extensionLoaders.extensionByNameLoader,
     extensionsBySchemaLoader: extensionLoaders.extensionsBySchemaLoader,
+
+    // Function loaders
+    functionLoader: functionLoaders.functionLoader,
+    functionsByNamespaceLoader: functionLoaders.functionsByNamespaceLoader,
+
+    // Constraint loaders
+    constraintLoader: constraintLoaders.constraintLoader,
+    constraintsByRelationLoader: constraintLoaders.constraintsByRelationLoader,
+
+    // Sequence loaders
+    sequenceLoader: sequenceLoaders.sequenceLoader,
+    sequencesByOwnerRelationLoader: sequenceLoaders.sequencesByOwnerRelationLoader,
+
+    // Partitioned table loaders
+    partitionedTableLoader: partitionedTableLoaders.partitionedTableLoader,
+
+    // Partition loaders
+    partitionLoader: partitionLoaders.partitionLoader,
+    partitionsByParentLoader: partitionLoaders.partitionsByParentLoader,
+
+    // Description loaders
+    descriptionLoader: descriptionLoaders.descriptionLoader,
+
+    // Role membership loaders
+    membershipsByMemberLoader: authMemberLoaders.membershipsByMemberLoader,
+    membershipsByRoleLoader: authMemberLoaders.membershipsByRoleLoader,
+
+    // Foreign data wrapper loaders
+    foreignDataWrapperLoader: foreignDataWrapperLoaders.foreignDataWrapperLoader,
+
+    // Foreign server loaders
+    foreignServerLoader: foreignServerLoaders.foreignServerLoader,
+    foreignServersByWrapperLoader: foreignServerLoaders.foreignServersByWrapperLoader,
+
+    // Foreign table loaders
+    foreignTableLoader: foreignTableLoaders.foreignTableLoader,
+    foreignTablesByServerLoader: foreignTableLoaders.foreignTablesByServerLoader,
+
+    // Extension member loaders
+    extensionMembersByExtensionLoader: extensionMemberLoaders.extensionMembersByExtensionLoader,
+    extensionOwnerLoader: extensionMemberLoaders.extensionOwnerLoader,
+
+    // Publication loaders
+    publicationLoader: publicationLoaders.publicationLoader,
+
+    // Publication table loaders
+    publicationRelsByPublicationLoader: publicationRelLoaders.publicationRelsByPublicationLoader,
+    publicationRelsByRelationLoader: publicationRelLoaders.publicationRelsByRelationLoader,
+
+    // Subscription loaders
+    subscriptionLoader: subscriptionLoaders.subscriptionLoader,
+
+    // Event trigger loaders
+    eventTriggerLoader: eventTriggerLoaders.eventTriggerLoader,
+
+    // View definition loaders
+    viewDefinitionLoader: viewDefinitionLoaders.viewDefinitionLoader,
+
+    // Rule loaders
+    ruleLoader: ruleLoaders.ruleLoader,
+    rulesByRelationLoader: ruleLoaders.rulesByRelationLoader,
+
+    // Dependency loaders
+    dependentsLoader: dependLoaders.dependentsLoader,
+    dependenciesLoader: dependLoaders.dependenciesLoader,
+
+    // Range loaders
+    rangeLoader: rangeLoaders.rangeLoader,
+    rangeByMultirangeLoader: rangeLoaders.rangeByMultirangeLoader,
+
+    // Domain constraint loaders
+    domainConstraintsByTypeLoader: domainConstraintLoaders.domainConstraintsByTypeLoader,
+
+    // Enum usage loaders
+    enumUsagesByTypeLoader: enumUsageLoaders.enumUsagesByTypeLoader,
+
+    // Relation storage loaders
+    relationStorageLoader: relationStorageLoaders.relationStorageLoader,
+
+    // Table statistics loaders
+    tableStatisticsLoader: tableStatisticsLoaders.tableStatisticsLoader,
+
+    // Index statistics loaders
+    indexStatisticsLoader: indexStatisticsLoaders.indexStatisticsLoader,
+
+    // Function statistics loaders
+    functionStatisticsLoader: functionStatisticsLoaders.functionStatisticsLoader,
+
+    // Column statistics loaders
+    columnStatisticsByRelationLoader: columnStatisticsLoaders.columnStatisticsByRelationLoader,
+
+    // Extended statistics loaders
+    statisticExtLoader: statisticExtLoaders.statisticExtLoader,
+    statisticExtByRelationLoader: statisticExtLoaders.statisticExtByRelationLoader,
+    statisticExtByNamespaceLoader: statisticExtLoaders.statisticExtByNamespaceLoader,
+
+    // Inheritance loaders
+    inheritsByChildLoader: inheritsLoaders.inheritsByChildLoader,
+    inheritsByParentLoader: inheritsLoaders.inheritsByParentLoader,
+
+    // Collation loaders
+    collationLoader: collationLoaders.collationLoader,
+    collationsByNamespaceLoader: collationLoaders.collationsByNamespaceLoader,
+
+    // Cast loaders
+    castLoader: castLoaders.castLoader,
+
+    // Operator loaders
+    operatorLoader: operatorLoaders.operatorLoader,
+    operatorsByNamespaceLoader: operatorLoaders.operatorsByNamespaceLoader,
+
+    // Aggregate loaders
+    aggregateLoader: aggregateLoaders.aggregateLoader,
+    aggregatesByNamespaceLoader: aggregateLoaders.aggregatesByNamespaceLoader,
   };
 
   return { loaders, resolvers, dataSources };
@@ -0,0 +1,136 @@
+import type pg from "pg";
+import DataLoader from "dataloader";
+import type { PgAggregate } from "../types.js";
+import { PgAggregateSchema } from "../types.js";
+
+/**
+ * Interface for aggregate query filtering options
+ */
+export interface AggregateQueryOptions {
+  /** Filter by aggregate OIDs */
+  oids?: number[];
+  /** Filter by the OIDs of the schemas containing the aggregates */
+  namespaceOids?: number[];
+  /** Include system schemas */
+  includeSystemSchemas?: boolean;
+}
+
+/**
+ * Database query functions for aggregate functions from pg_aggregate and their pg_proc entries
+ */
+export const aggregateQueries = {
+  /**
+   * Query aggregates with various filtering options
+   */
+  async query(
+    client: pg.Client | pg.PoolClient,
+    options: AggregateQueryOptions = {}
+  ): Promise<PgAggregate[]> {
+    const { oids, namespaceOids, includeSystemSchemas } = options;
+
+    // Build the WHERE clause based on filter options
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (oids && oids.length > 0) {
+      conditions.push(`a.aggfnoid = ANY($${params.length + 1})`);
+      params.push(oids);
+    }
+
+    if (namespaceOids && namespaceOids.length > 0) {
+      conditions.push(`p.pronamespace = ANY($${params.length + 1})`);
+      params.push(namespaceOids);
+    }
+
+    // Exclude system schemas unless specifically included
+    if (!includeSystemSchemas) {
+      conditions.push(
+        `n.nspname NOT IN ('pg_toast', 'pg_catalog', 'information_schema', 'pg_temp')`
+      );
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const result = await client.query(
+      `
+      SELECT
+        a.aggfnoid::oid AS aggfnoid,
+        p.proname AS aggname,
+        p.pronamespace AS aggnamespace,
+        p.proowner AS aggowner,
+        a.aggkind,
+        a.aggnumdirectargs,
+        a.aggtransfn::oid AS aggtransfn,
+        a.aggfinalfn::oid AS aggfinalfn,
+        a.aggcombinefn::oid AS aggcombinefn,
+        a.aggserialfn::oid AS aggserialfn,
+        a.aggdeserialfn::oid AS aggdeserialfn,
+        a.aggsortop,
+        a.aggtranstype,
+        a.agginitval
+      FROM pg_catalog.pg_aggregate a
+      JOIN pg_catalog.pg_proc p ON p.oid = a.aggfnoid
+      JOIN pg_catalog.pg_namespace n ON n.oid = p.pronamespace
+      ${whereClause}
+      ORDER BY n.nspname, p.proname, a.aggfnoid
+      `,
+      params
+    );
+
+    return result.rows.map((row) => PgAggregateSchema.parse(row));
+  },
+};
+
+/**
+ * Create DataLoaders for aggregates
+ * @param client - PostgreSQL database client
+ * @returns DataLoaders and utility functions for efficient aggregate queries
+ */
+export function createAggregateLoaders(client: pg.Client | pg.PoolClient) {
+  /**
+   * DataLoader for loading aggregates by OID
+   */
+  const aggregateLoader = new DataLoader<number, PgAggregate | null>(async (oids) => {
+    const aggregates = await aggregateQueries.query(client, {
+      oids: [...new Set(oids)],
+      includeSystemSchemas: true,
+    });
+
+    // Create a map for fast lookup by OID
+    const aggregateMap = new Map<number, PgAggregate>();
+    aggregates.forEach((agg) => {
+      aggregateMap.set(agg.aggfnoid, agg);
+    });
+
+    // Return aggregates in the same order as requested OIDs
+    return oids.map((oid) => aggregateMap.get(oid) || null);
+  });
+
+  /**
+   * DataLoader for loading the aggregates in a schema by namespace OID
+   */
+  const aggregatesByNamespaceLoader = new DataLoader<number, PgAggregate[]>(
+    async (namespaceOids) => {
+      const aggregates = await aggregateQueries.query(client, {
+        namespaceOids: [...new Set(namespaceOids)],
+        includeSystemSchemas: true,
+      });
+
+      // Group aggregates by namespace OID
+      const aggregatesByNamespace = new Map<number, PgAggregate[]>();
+      aggregates.forEach((agg) => {
+        const list = aggregatesByNamespace.get(agg.aggnamespace) || [];
+        list.push(agg);
+        aggregatesByNamespace.set(agg.aggnamespace, list);
+      });
+
+      // Return aggregates in the same order as requested namespace OIDs
+      return namespaceOids.map((oid) => aggregatesByNamespace.get(oid) || []);
+    }
+  );
+
+  return {
+    aggregateLoader,
+    aggregatesByNamespaceLoader,
+  };
+}
@@ -99,10 +99,20 @@ export const attributeQueries = {
         a.atttypid,
         a.attnum,
         a.attnotnull,
+        a.atttypmod,
+        a.attidentity,
+        a.attgenerated,
+        a.attislocal,
+        a.attinhcount,
+        pg_catalog.pg_get_expr(d.adbin, d.adrelid) AS attdefault,
+        co.collname AS attcollname,
+        pg_catalog.format_type(a.atttypid, a.atttypmod) AS atttypname,
         n.nspname
       FROM pg_catalog.pg_attribute a
       JOIN pg_catalog.pg_class c ON a.attrelid = c.oid
       JOIN pg_catalog.pg_namespace n ON c.relnamespace = n.oid
+      LEFT JOIN pg_catalog.pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+      LEFT JOIN pg_catalog.pg_collation co ON co.oid = a.attcollation
       ${whereClause}
       ORDER BY a.attrelid, a.attnum
     `;
@@ -133,10 +143,20 @@ export const attributeQueries = {
         a.attname,
         a.atttypid,
         a.attnum,
-        a.attnotnull
+        a.attnotnull,
+        a.atttypmod,
+        a.attidentity,
+        a.attgenerated,
+        a.attislocal,
+        a.attinhcount,
+        pg_catalog.pg_get_expr(d.adbin, d.adrelid) AS attdefault,
+        co.collname AS attcollname,
+        pg_catalog.format_type(a.atttypid, a.atttypmod) AS atttypname
       FROM pg_catalog.pg_attribute a
       JOIN pg_catalog.pg_class c ON a.attrelid = c.oid
       JOIN pg_catalog.pg_namespace n ON c.relnamespace = n.oid
+      LEFT JOIN pg_catalog.pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+      LEFT JOIN pg_catalog.pg_collation co ON co.oid = a.attcollation
       WHERE n.nspname = $1 AND c.relname = $2
         AND a.attnum > 0
         AND NOT a.attisdropped
@@ -0,0 +1,130 @@
+import type pg from "pg";
+import DataLoader from "dataloader";
+import type { PgAuthMember } from "../types.js";
+import { PgAuthMemberSchema } from "../types.js";
+
+/**
+ * Interface for role membership query filtering options
+ */
+export interface AuthMemberQueryOptions {
+  /** Filter by the OIDs of the roles being granted (pg_auth_members.roleid) */
+  roleOids?: number[];
+  /** Filter by the OIDs of the member roles (pg_auth_members.member) */
+  memberOids?: number[];
+}
+
+/**
+ * Database query functions for PostgreSQL role memberships
+ */
+export const authMemberQueries = {
+  /**
+   * Query role memberships with various filtering options
+   */
+  async query(
+    client: pg.Client | pg.PoolClient,
+    options: AuthMemberQueryOptions = {}
+  ): Promise<PgAuthMember[]> {
+    const { roleOids, memberOids } = options;
+
+    // Build the WHERE clause based on filter options
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (roleOids && roleOids.length > 0) {
+      conditions.push(`m.roleid = ANY($${params.length + 1})`);
+      params.push(roleOids);
+    }
+
+    if (memberOids && memberOids.length > 0) {
+      conditions.push(`m.member = ANY($${params.length + 1})`);
+      params.push(memberOids);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const result = await client.query(
+      `
+      SELECT
+        m.roleid,
+        m.member,
+        m.grantor,
+        m.admin_option
+      FROM pg_catalog.pg_auth_members m
+      JOIN pg_catalog.pg_roles r ON r.oid = m.roleid
+      JOIN pg_catalog.pg_roles u ON u.oid = m.member
+      ${whereClause}
+      ORDER BY r.rolname, u.rolname
+      `,
+      params
+    );
+
+    return result.rows.map((row) => PgAuthMemberSchema.parse(row));
+  },
+};
+
+/**
+ * Create DataLoaders for PostgreSQL role memberships
+ * @param client - PostgreSQL database client
+ * @returns DataLoaders and utility functions for efficient role membership queries
+ */
+export function createAuthMemberLoaders(client: pg.Client | pg.PoolClient) {
+  /**
+   * DataLoader for loading the memberships granted to a role, keyed by member OID
+   */
+  const membershipsByMemberLoader = new DataLoader<number, PgAuthMember[]>(async (memberOids) => {
+    const memberships = await authMemberQueries.query(client, {
+      memberOids: [...new Set(memberOids)],
+    });
+
+    // Group memberships by member OID
+    const membershipsByMember = new Map<number, PgAuthMember[]>();
+    memberOids.forEach((oid) => membershipsByMember.set(oid, []));
+
+    memberships.forEach((m) => {
+      const list = membershipsByMember.get(m.member) || [];
+      list.push(m);
+      membershipsByMember.set(m.member, list);
+    });
+
+    // Return memberships in the same order as requested member OIDs
+    return memberOids.map((oid) => membershipsByMember.get(oid) || []);
+  });
+
+  /**
+   * DataLoader for loading the members of a role, keyed by role OID
+   */
+  const membershipsByRoleLoader = new DataLoader<number, PgAuthMember[]>(async (roleOids) => {
+    const memberships = await authMemberQueries.query(client, {
+      roleOids: [...new Set(roleOids)],
+    });
+
+    // Group memberships by granted role OID
+    const membershipsByRole = new Map<number, PgAuthMember[]>();
+    roleOids.forEach((oid) => membershipsByRole.set(oid, []));
+
+    memberships.forEach((m) => {
+      const list = membershipsByRole.get(m.roleid) || [];
+      list.push(m);
+      membershipsByRole.set(m.roleid, list);
+    });
+
+    // Return memberships in the same order as requested role OIDs
+    return roleOids.map((oid) => membershipsByRole.get(oid) || []);
+  });
+
+  /**
+   * Function to get all role memberships with optional filtering
+   */
+  const getAllAuthMembers = async (
+    filter?: (m: PgAuthMember) => boolean
+  ): Promise<PgAuthMember[]> => {
+    const memberships = await authMemberQueries.query(client);
+    return filter ? memberships.filter(filter) : memberships;
+  };
+
+  return {
+    membershipsByMemberLoader,
+    membershipsByRoleLoader,
+    getAllAuthMembers,
+  };
+}
@@ -0,0 +1,105 @@
+import type pg from "pg";
+import DataLoader from "dataloader";
+import type { PgCast } from "../types.js";
+import { PgCastSchema } from "../types.js";
+
+/**
+ * Interface for cast query filtering options
+ */
+export interface CastQueryOptions {
+  /** Filter by cast OIDs */
+  oids?: number[];
+  /** Include the casts created by initdb */
+  includeBuiltIn?: boolean;
+}
+
+/**
+ * Database query functions for casts from pg_cast
+ */
+export const castQueries = {
+  /**
+   * Query casts with various filtering options.
+   * Casts do not belong to a schema, so built-in casts are told apart by their OID:
+   * objects created by initdb have OIDs below FirstNormalObjectId (16384).
+   */
+  async query(
+    client: pg.Client | pg.PoolClient,
+    options: CastQueryOptions = {}
+  ): Promise<PgCast[]> {
+    const { oids, includeBuiltIn } = options;
+
+    // Build the WHERE clause based on filter options
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (oids && oids.length > 0) {
+      conditions.push(`c.oid = ANY($${params.length + 1})`);
+      params.push(oids);
+    }
+
+    // Exclude built-in casts unless specifically included
+    if (!includeBuiltIn) {
+      conditions.push(`c.oid >= 16384`);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const result = await client.query(
+      `
+      SELECT
+        c.oid,
+        c.castsource,
+        c.casttarget,
+        c.castfunc,
+        c.castcontext,
+        c.castmethod,
+        c.oid < 16384 AS castisbuiltin
+      FROM pg_catalog.pg_cast c
+      ${whereClause}
+      ORDER BY pg_catalog.format_type(c.castsource, NULL), pg_catalog.format_type(c.casttarget, NULL)
+      `,
+      params
+    );
+
+    return result.rows.map((row) => PgCastSchema.parse(row));
+  },
+};
+
+/**
+ * Create DataLoaders for casts
+ * @param client - PostgreSQL database client
+ * @returns DataLoaders and utility functions for efficient cast queries
+ */
+export function createCastLoaders(client: pg.Client | pg.PoolClient) {
+  /**
+   * DataLoader for loading casts by OID
+   */
+  const castLoader = new DataLoader<number, PgCast | null>(async (oids) => {
+    const casts = await castQueries.query(client, {
+      oids: [...new Set(oids)],
+      includeBuiltIn: true,
+    });
+
+    // Create a map for fast lookup by OID
+    const castMap = new Map<number, PgCast>();
+    casts.forEach((cast) => {
+      castMap.set(cast.oid, cast);
+    });
+
+    // Return casts in the same order as requested OIDs
+    return oids.map((oid) => castMap.get(oid) || null);
+  });
+
+  /**
+   * Function to get all casts, built-in ones included, with optional filtering
+   */
+  const getAllCasts = async (filter?: (cast: PgCast) => boolean): Promise<PgCast[]> => {
+    const casts = await castQueries.query(client, { includeBuiltIn: true });
+    return filter ? casts.filter(filter) : casts;
+  };
+
+  return {
+    castLoader,
+    getAllCasts,
+  };
+}
@@ -0,0 +1,156 @@
+import type pg from "pg";
+import DataLoader from "dataloader";
+import type { PgCollation } from "../types.js";
+import { PgCollationSchema } from "../types.js";
+
+/**
+ * Interface for collation query filtering options
+ */
+export interface CollationQueryOptions {
+  /** Filter by collation OIDs */
+  oids?: number[];
+  /** Filter by the OIDs of the schemas containing the collations */
+  namespaceOids?: number[];
+  /** Include system schemas */
+  includeSystemSchemas?: boolean;
+}
+
+// Server version per client, looked up once because pg_collation columns differ by version
+const serverVersions = new WeakMap<object, Promise<number>>();
+
+async function getServerVersionNum(client: pg.Client | pg.PoolClient): Promise<number> {
+  let version = serverVersions.get(client);
+  if (!version) {
+    version = client
+      .query("SELECT current_setting('server_version_num')::int AS server_version_num")
+      .then((result) => Number(result.rows[0].server_version_num));
+    // Forget a failed lookup so the next query retries it
+    version.catch(() => serverVersions.delete(client));
+    serverVersions.set(client, version);
+  }
+  return version;
+}
+
+/**
+ * Database query functions for collations from pg_collation
+ */
+export const collationQueries = {
+  /**
+   * Query collations with various filtering options. Supports PostgreSQL 12 and later:
+   * the locale comes from colllocale on 17+ and colliculocale on 15 and 16, and the
+   * ICU rules from collicurules on 16+; both are null where the column does not exist.
+   */
+  async query(
+    client: pg.Client | pg.PoolClient,
+    options: CollationQueryOptions = {}
+  ): Promise<PgCollation[]> {
+    const { oids, namespaceOids, includeSystemSchemas } = options;
+
+    const version = await getServerVersionNum(client);
+    const localeColumn =
+      version >= 170000 ? "co.colllocale" : version >= 150000 ? "co.colliculocale" : "NULL::text";
+    const icuRulesColumn = version >= 160000 ? "co.collicurules" : "NULL::text";
+
+    // Build the WHERE clause based on filter options
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (oids && oids.length > 0) {
+      conditions.push(`co.oid = ANY($${params.length + 1})`);
+      params.push(oids);
+    }
+
+    if (namespaceOids && namespaceOids.length > 0) {
+      conditions.push(`co.collnamespace = ANY($${params.length + 1})`);
+      params.push(namespaceOids);
+    }
+
+    // Exclude system schemas unless specifically included
+    if (!includeSystemSchemas) {
+      conditions.push(
+        `n.nspname NOT IN ('pg_toast', 'pg_catalog', 'information_schema', 'pg_temp')`
+      );
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const result = await client.query(
+      `
+      SELECT
+        co.oid,
+        co.collname,
+        co.collnamespace,
+        co.collowner,
+        co.collprovider,
+        co.collisdeterministic,
+        nullif(pg_catalog.pg_encoding_to_char(co.collencoding), '') AS collencodingname,
+        co.collcollate,
+        co.collctype,
+        ${localeColumn} AS colllocale,
+        ${icuRulesColumn} AS collicurules,
+        co.collversion
+      FROM pg_catalog.pg_collation co
+      JOIN pg_catalog.pg_namespace n ON n.oid = co.collnamespace
+      ${whereClause}
+      ORDER BY n.nspname, co.collname, co.oid
+      `,
+      params
+    );
+
+    return result.rows.map((row) => PgCollationSchema.parse(row));
+  },
+};
+
+/**
+ * Create DataLoaders for collations
+ * @param client - PostgreSQL database client
+ * @returns DataLoaders and utility functions for efficient collation queries
+ */
+export function createCollationLoaders(client: pg.Client | pg.PoolClient) {
+  /**
+   * DataLoader for loading collations by OID
+   */
+  const collationLoader = new DataLoader<number, PgCollation | null>(async (oids) => {
+    const collations = await collationQueries.query(client, {
+      oids: [...new Set(oids)],
+      includeSystemSchemas: true,
+    });
+
+    // Create a map for fast lookup by OID
+    const collationMap = new Map<number, PgCollation>();
+    collations.forEach((coll) => {
+      collationMap.set(coll.oid, coll);
+    });
+
+    // Return collations in the same order as requested OIDs
+    return oids.map((oid) => collationMap.get(oid) || null);
+  });
+
+  /**
+   * DataLoader for loading the collations in a schema by namespace OID
+   */
+  const collationsByNamespaceLoader = new DataLoader<number, PgCollation[]>(
+    async (namespaceOids) => {
+      const collations = await collationQueries.query(client, {
+        namespaceOids: [...new Set(namespaceOids)],
+        includeSystemSchemas: true,
+      });
+
+      // Group collations by namespace OID
+      const collationsByNamespace = new Map<number, PgCollation[]>();
+      collations.forEach((coll) => {
+        const list = collationsByNamespace.get(coll.collnamespace) || [];
+        list.push(coll);
+        collationsByNamespace.set(coll.collnamespace, list);
+      });
+
+      // Return collations in the same order as requested namespace OIDs
+      return namespaceOids.map((oid) => collationsByNamespace.get(oid) || []);
+    }
+  );
+
+  return {
+    collationLoader,
+    collationsByNamespaceLoader,
+  };
+}
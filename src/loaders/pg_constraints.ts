@@ -0,0 +1,181 @@
+import type pg from "pg";
+import DataLoader from "dataloader";
+import type { PgConstraint } from "../types.js";
+import { PgConstraintSchema } from "../types.js";
+
+/**
+ * Constraint types exposed through the API: primary key, unique, check, exclusion and foreign key.
+ * Not-null constraints ('n') and constraint triggers ('t') are intentionally left out.
+ */
+export const TABLE_CONSTRAINT_TYPES = ["p", "u", "c", "x", "f"];
+
+/**
+ * Interface for constraint query filtering options
+ */
+export interface ConstraintQueryOptions {
+  /** Filter by constraint OIDs */
+  constraintOids?: number[];
+  /** Filter by relation OIDs (constrained tables) */
+  relationOids?: number[];
+  /** Filter by constraint types (pg_constraint.contype) */
+  constraintTypes?: string[];
+  /** Include system schemas */
+  includeSystemSchemas?: boolean;
+}
+
+/**
+ * Database query functions for PostgreSQL table constraints
+ */
+export const constraintQueries = {
+  /**
+   * Query constraints with various filtering options
+   */
+  async query(
+    client: pg.Client | pg.PoolClient,
+    options: ConstraintQueryOptions = {}
+  ): Promise<PgConstraint[]> {
+    const { constraintOids, relationOids, constraintTypes, includeSystemSchemas } = options;
+
+    // Build the WHERE clause based on filter options
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    // Domain constraints have no relation and are not table constraints
+    conditions.push(`c.conrelid <> 0`);
+
+    conditions.push(`c.contype = ANY($${params.length + 1})`);
+    params.push(
+      constraintTypes && constraintTypes.length > 0 ? constraintTypes : TABLE_CONSTRAINT_TYPES
+    );
+
+    if (constraintOids && constraintOids.length > 0) {
+      conditions.push(`c.oid = ANY($${params.length + 1})`);
+      params.push(constraintOids);
+    }
+
+    if (relationOids && relationOids.length > 0) {
+      conditions.push(`c.conrelid = ANY($${params.length + 1})`);
+      params.push(relationOids);
+    }
+
+    // Exclude system schemas unless specifically included
+    if (!includeSystemSchemas) {
+      conditions.push(
+        `n.nspname NOT IN ('pg_toast', 'pg_catalog', 'information_schema', 'pg_temp')`
+      );
+    }
+
+    const result = await client.query(
+      `
+      SELECT
+        c.oid,
+        c.conname,
+        c.contype,
+        c.conrelid,
+        c.conindid,
+        c.conkey,
+        c.confrelid,
+        c.confkey,
+        c.confupdtype,
+        c.confdeltype,
+        c.condeferrable,
+        c.condeferred,
+        c.convalidated,
+        c.connoinherit,
+        pg_get_constraintdef(c.oid) as condef
+      FROM pg_catalog.pg_constraint c
+      JOIN pg_catalog.pg_namespace n ON n.oid = c.connamespace
+      WHERE ${conditions.join(" AND ")}
+      ORDER BY c.conrelid, c.conname
+      `,
+      params
+    );
+
+    return result.rows.map((row) => PgConstraintSchema.parse(row));
+  },
+
+  /**
+   * Get a single constraint by OID
+   */
+  async byOid(client: pg.Client | pg.PoolClient, oid: number): Promise<PgConstraint | null> {
+    const constraints = await this.query(client, { constraintOids: [oid] });
+    return constraints.length > 0 ? constraints[0] : null;
+  },
+
+  /**
+   * Get constraints by relation OID
+   */
+  async byRelationOid(
+    client: pg.Client | pg.PoolClient,
+    relationOid: number
+  ): Promise<PgConstraint[]> {
+    return this.query(client, { relationOids: [relationOid] });
+  },
+};
+
+/**
+ * Create DataLoaders for PostgreSQL table constraints
+ * @param client - PostgreSQL database client
+ * @returns DataLoaders and utility functions for efficient constraint queries
+ */
+export function createConstraintLoaders(client: pg.Client | pg.PoolClient) {
+  /**
+   * DataLoader for loading constraints by OID
+   */
+  const constraintLoader = new DataLoader<number, PgConstraint | null>(async (oids) => {
+    const constraints = await constraintQueries.query(client, {
+      constraintOids: [...new Set(oids)],
+      includeSystemSchemas: true,
+    });
+
+    // Create a map for fast lookup by OID
+    const constraintMap = new Map<number, PgConstraint>();
+    constraints.forEach((con) => {
+      constraintMap.set(con.oid, con);
+    });
+
+    // Return constraints in the same order as requested OIDs
+    return oids.map((oid) => constraintMap.get(oid) || null);
+  });
+
+  /**
+   * DataLoader for loading constraints by relation OID
+   */
+  const constraintsByRelationLoader = new DataLoader<number, PgConstraint[]>(
+    async (relationOids) => {
+      const constraints = await constraintQueries.query(client, {
+        relationOids: [...new Set(relationOids)],
+        includeSystemSchemas: true,
+      });
+
+      // Group constraints by relation OID
+      const constraintsByRelation = new Map<number, PgConstraint[]>();
+      relationOids.forEach((oid) => constraintsByRelation.set(oid, []));
+
+      constraints.forEach((con) => {
+        const relationConstraints = constraintsByRelation.get(con.conrelid) || [];
+        relationConstraints.push(con);
+        constraintsByRelation.set(con.conrelid, relationConstraints);
+      });
+
+      // Return constraints in the same order as requested relation OIDs
+      return relationOids.map((oid) => constraintsByRelation.get(oid) || []);
+    }
+  );
+
+  /**
+   * Function to get all constraints with optional filtering
+   */
+  const getAllConstraints = async (
+    filter?: (con: PgConstraint) => boolean
+  ): Promise<PgConstraint[]> => {
+    const constraints = await constraintQueries.query(client);
+    return filter ? constraints.filter(filter) : constraints;
+  };
+
+  return {
+    constraintLoader,
+    constraintsByRelationLoader,
+    getAllConstraints,
+  };
+}
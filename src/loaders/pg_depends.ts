@@ -0,0 +1,173 @@
+import type pg from "pg";
+import DataLoader from "dataloader";
+import type { PgDepend } from "../types.js";
+import { PgDependSchema } from "../types.js";
+
+/**
+ * Identifies an object taking part in dependencies: its catalog, its OID and,
+ * for columns, its attnum. An objsubid of 0 stands for the object and all its columns.
+ */
+export interface DependencyKey {
+  /** OID of the system catalog containing the object */
+  classid: number;
+  /** OID of the object */
+  objid: number;
+  /** Column number for columns, 0 for the whole object */
+  objsubid: number;
+}
+
+/**
+ * Interface for dependency query filtering options
+ */
+export interface DependQueryOptions {
+  /** Only load dependencies whose referenced object matches one of these keys */
+  referencedKeys?: DependencyKey[];
+  /** Only load dependencies whose dependent object matches one of these keys */
+  dependentKeys?: DependencyKey[];
+}
+
+/**
+ * Database query functions for object dependencies from pg_depend
+ */
+export const dependQueries = {
+  /**
+   * Query dependencies, optionally restricted to the given referenced or dependent objects.
+   * Views depend on other objects through their _RETURN rule and columns through their
+   * pg_attrdef default, so these are reported as the view or column itself.
+   */
+  async query(
+    client: pg.Client | pg.PoolClient,
+    options: DependQueryOptions = {}
+  ): Promise<PgDepend[]> {
+    const { referencedKeys, dependentKeys } = options;
+
+    const params: any[] = [];
+    const joins: string[] = [];
+
+    if (referencedKeys && referencedKeys.length > 0) {
+      const base = params.length;
+      params.push(
+        referencedKeys.map((k) => k.classid),
+        referencedKeys.map((k) => k.objid),
+        referencedKeys.map((k) => k.objsubid)
+      );
+      joins.push(`
+        JOIN unnest($${base + 1}::oid[], $${base + 2}::oid[], $${base + 3}::int4[]) AS rk(classid, objid, objsubid)
+          ON dep.refclassid = rk.classid
+          AND dep.refobjid = rk.objid
+          AND (rk.objsubid = 0 OR dep.refobjsubid = rk.objsubid)`);
+    }
+
+    if (dependentKeys && dependentKeys.length > 0) {
+      const base = params.length;
+      params.push(
+        dependentKeys.map((k) => k.classid),
+        dependentKeys.map((k) => k.objid),
+        dependentKeys.map((k) => k.objsubid)
+      );
+      joins.push(`
+        JOIN unnest($${base + 1}::oid[], $${base + 2}::oid[], $${base + 3}::int4[]) AS dk(classid, objid, objsubid)
+          ON dep.classid = dk.classid
+          AND dep.objid = dk.objid
+          AND (dk.objsubid = 0 OR dep.objsubid = dk.objsubid)`);
+    }
+
+    const result = await client.query(
+      `
+      SELECT DISTINCT
+        dep.classid,
+        dep.objid,
+        dep.objsubid,
+        dep.refclassid,
+        dep.refobjid,
+        dep.refobjsubid,
+        dep.deptype
+      FROM (
+        SELECT
+          CASE
+            WHEN r.rulename = '_RETURN' OR ad.oid IS NOT NULL
+              THEN 'pg_catalog.pg_class'::regclass::oid
+            ELSE d.classid
+          END AS classid,
+          CASE
+            WHEN r.rulename = '_RETURN' THEN r.ev_class
+            WHEN ad.oid IS NOT NULL THEN ad.adrelid
+            ELSE d.objid
+          END AS objid,
+          CASE
+            WHEN r.rulename = '_RETURN' THEN 0
+            WHEN ad.oid IS NOT NULL THEN ad.adnum::int4
+            ELSE d.objsubid
+          END AS objsubid,
+          d.refclassid,
+          d.refobjid,
+          d.refobjsubid,
+          d.deptype
+        FROM pg_catalog.pg_depend d
+        LEFT JOIN pg_catalog.pg_rewrite r
+          ON d.classid = 'pg_catalog.pg_rewrite'::regclass AND r.oid = d.objid
+        LEFT JOIN pg_catalog.pg_attrdef ad
+          ON d.classid = 'pg_catalog.pg_attrdef'::regclass AND ad.oid = d.objid
+      ) dep
+      ${joins.join("")}
+      WHERE NOT (dep.classid = dep.refclassid AND dep.objid = dep.refobjid)
+      ORDER BY dep.refclassid, dep.refobjid, dep.refobjsubid, dep.classid, dep.objid, dep.objsubid
+      `,
+      params
+    );
+
+    return result.rows.map((row) => PgDependSchema.parse(row));
+  },
+};
+
+/**
+ * Create DataLoaders for object dependencies
+ * @param client - PostgreSQL database client
+ * @returns DataLoaders and utility functions for efficient dependency queries
+ */
+export function createDependLoaders(client: pg.Client | pg.PoolClient) {
+  const keyFor = (key: DependencyKey) => `${key.classid}:${key.objid}:${key.objsubid}`;
+  const matches = (key: DependencyKey, classid: number, objid: number, objsubid: number) =>
+    key.classid === classid &&
+    key.objid === objid &&
+    (key.objsubid === 0 || key.objsubid === objsubid);
+
+  /**
+   * DataLoader for loading the dependencies on an object (what depends on it)
+   */
+  const dependentsLoader = new DataLoader<DependencyKey, PgDepend[], string>(
+    async (keys) => {
+      const depends = await dependQueries.query(client, { referencedKeys: [...keys] });
+
+      // Return dependencies in the same order as requested keys
+      return keys.map((key) =>
+        depends.filter((d) => matches(key, d.refclassid, d.refobjid, d.refobjsubid))
+      );
+    },
+    {
+      // Unique cache key for each object
+      cacheKeyFn: keyFor,
+    }
+  );
+
+  /**
+   * DataLoader for loading the dependencies of an object (what it depends on)
+   */
+  const dependenciesLoader = new DataLoader<DependencyKey, PgDepend[], string>(
+    async (keys) => {
+      const depends = await dependQueries.query(client, { dependentKeys: [...keys] });
+
+      // Return dependencies in the same order as requested keys
+      return keys.map((key) => depends.filter((d) => matches(key, d.classid, d.objid, d.objsubid)));
+    },
+    {
+      // Unique cache key for each object
+      cacheKeyFn: keyFor,
+    }
+  );
+
+  return {
+    dependentsLoader,
+    dependenciesLoader,
+  };
+}
@@ -0,0 +1,135 @@
+import type pg from "pg";
+import DataLoader from "dataloader";
+import type { PgDescription } from "../types.js";
+import { PgDescriptionSchema } from "../types.js";
+
+/**
+ * OIDs of the system catalogs that commented objects live in (pg_description.classoid).
+ * These are fixed at bootstrap and identical across PostgreSQL installations.
+ */
+export const CatalogOid = {
+  pg_type: 1247,
+  pg_proc: 1255,
+  pg_class: 1259,
+  pg_authid: 1260,
+  pg_database: 1262,
+  pg_foreign_server: 1417,
+  pg_foreign_data_wrapper: 2328,
+  pg_cast: 2605,
+  pg_constraint: 2606,
+  pg_rewrite: 2618,
+  pg_namespace: 2615,
+  pg_operator: 2617,
+  pg_trigger: 2620,
+  pg_extension: 3079,
+  pg_policy: 3256,
+  pg_collation: 3456,
+  pg_statistic_ext: 3381,
+  pg_event_trigger: 3466,
+  pg_subscription: 6100,
+  pg_publication: 6104,
+} as const;
+
+/**
+ * Identifies a commented object: the catalog it lives in, its OID and, for columns, its attnum
+ */
+export interface DescriptionKey {
+  /** OID of the system catalog containing the object */
+  classoid: number;
+  /** OID of the object */
+  objoid: number;
+  /** Column number for column comments, 0 for the object itself */
+  objsubid: number;
+}
+
+/**
+ * Interface for description query filtering options
+ */
+export interface DescriptionQueryOptions {
+  /** Only load descriptions for these objects */
+  keys?: DescriptionKey[];
+}
+
+/**
+ * Database query functions for object comments from pg_description and pg_shdescription
+ */
+export const descriptionQueries = {
+  /**
+   * Query descriptions, optionally restricted to the given objects
+   */
+  async query(
+    client: pg.Client | pg.PoolClient,
+    options: DescriptionQueryOptions = {}
+  ): Promise<PgDescription[]> {
+    const { keys } = options;
+
+    const params: any[] = [];
+    let keyJoin = "";
+    let sharedKeyJoin = "";
+
+    if (keys && keys.length > 0) {
+      params.push(
+        keys.map((k) => k.classoid),
+        keys.map((k) => k.objoid),
+        keys.map((k) => k.objsubid)
+      );
+      keyJoin = `
+        JOIN unnest($1::oid[], $2::oid[], $3::int4[]) AS k(classoid, objoid, objsubid)
+          ON d.classoid = k.classoid AND d.objoid = k.objoid AND d.objsubid = k.objsubid`;
+      sharedKeyJoin = `
+        JOIN unnest($1::oid[], $2::oid[], $3::int4[]) AS k(classoid, objoid, objsubid)
+          ON s.classoid = k.classoid AND s.objoid = k.objoid AND k.objsubid = 0`;
+    }
+
+    // Shared objects such as roles and databases keep their comments in pg_shdescription
+    const result = await client.query(
+      `
+      SELECT d.classoid, d.objoid, d.objsubid, d.description
+      FROM pg_catalog.pg_description d
+      ${keyJoin}
+      UNION ALL
+      SELECT s.classoid, s.objoid, 0 AS objsubid, s.description
+      FROM pg_catalog.pg_shdescription s
+      ${sharedKeyJoin}
+      `,
+      params
+    );
+
+    return result.rows.map((row) => PgDescriptionSchema.parse(row));
+  },
+};
+
+/**
+ * Create DataLoaders for object comments
+ * @param client - PostgreSQL database client
+ * @returns DataLoaders and utility functions for efficient comment queries
+ */
+export function createDescriptionLoaders(client: pg.Client | pg.PoolClient) {
+  const keyFor = (key: DescriptionKey) => `${key.classoid}:${key.objoid}:${key.objsubid}`;
+
+  /**
+   * DataLoader for loading the comment of an object by (classoid, objoid, objsubid)
+   */
+  const descriptionLoader = new DataLoader<DescriptionKey, string | null, string>(
+    async (keys) => {
+      const descriptions = await descriptionQueries.query(client, { keys: [...keys] });
+
+      // Create a map for fast lookup by key
+      const descriptionMap = new Map<string, string>();
+      descriptions.forEach((d) => {
+        descriptionMap.set(keyFor(d), d.description);
+      });
+
+      // Return comments in the same order as requested keys
+      return keys.map((key) => descriptionMap.get(keyFor(key)) ?? null);
+    },
+    {
+      // Unique cache key for each commented object
+      cacheKeyFn: keyFor,
+    }
+  );
+
+  return {
+    descriptionLoader,
+  };
+}
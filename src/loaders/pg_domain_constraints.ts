@@ -0,0 +1,98 @@
+import type pg from "pg";
+import DataLoader from "dataloader";
+import type { PgDomainConstraint } from "../types.js";
+import { PgDomainConstraintSchema } from "../types.js";
+
+/**
+ * Interface for domain constraint query filtering options
+ */
+export interface DomainConstraintQueryOptions {
+  /** Filter by domain type OIDs */
+  typeOids?: number[];
+  /** Include system schemas */
+  includeSystemSchemas?: boolean;
+}
+
+/**
+ * Database query functions for domain constraints, the pg_constraint rows with a contypid
+ */
+export const domainConstraintQueries = {
+  /**
+   * Query domain constraints with various filtering options
+   */
+  async query(
+    client: pg.Client | pg.PoolClient,
+    options: DomainConstraintQueryOptions = {}
+  ): Promise<PgDomainConstraint[]> {
+    const { typeOids, includeSystemSchemas } = options;
+
+    // Build the WHERE clause based on filter options
+    const conditions: string[] = [`c.contypid <> 0`];
+    const params: any[] = [];
+
+    if (typeOids && typeOids.length > 0) {
+      conditions.push(`c.contypid = ANY($${params.length + 1})`);
+      params.push(typeOids);
+    }
+
+    // Exclude system schemas unless specifically included
+    if (!includeSystemSchemas) {
+      conditions.push(
+        `n.nspname NOT IN ('pg_toast', 'pg_catalog', 'information_schema', 'pg_temp')`
+      );
+    }
+
+    const result = await client.query(
+      `
+      SELECT
+        c.oid,
+        c.conname,
+        c.contypid,
+        c.contype,
+        c.convalidated,
+        pg_catalog.pg_get_constraintdef(c.oid, true) AS condef
+      FROM pg_catalog.pg_constraint c
+      JOIN pg_catalog.pg_namespace n ON n.oid = c.connamespace
+      WHERE ${conditions.join(" AND ")}
+      ORDER BY c.contypid, c.conname
+      `,
+      params
+    );
+
+    return result.rows.map((row) => PgDomainConstraintSchema.parse(row));
+  },
+};
+
+/**
+ * Create DataLoaders for domain constraints
+ * @param client - PostgreSQL database client
+ * @returns DataLoaders and utility functions for efficient domain constraint queries
+ */
+export function createDomainConstraintLoaders(client: pg.Client | pg.PoolClient) {
+  /**
+   * DataLoader for loading the constraints of a domain by type OID
+   */
+  const domainConstraintsByTypeLoader = new DataLoader<number, PgDomainConstraint[]>(
+    async (typeOids) => {
+      const constraints = await domainConstraintQueries.query(client, {
+        typeOids: [...new Set(typeOids)],
+        includeSystemSchemas: true,
+      });
+
+      // Group constraints by domain type OID
+      const constraintsByType = new Map<number, PgDomainConstraint[]>();
+      constraints.forEach((con) => {
+        const list = constraintsByType.get(con.contypid) || [];
+        list.push(con);
+        constraintsByType.set(con.contypid, list);
+      });
+
+      // Return constraints in the same order as requested type OIDs
+      return typeOids.map((oid) => constraintsByType.get(oid) || []);
+    }
+  );
+
+  return {
+    domainConstraintsByTypeLoader,
+  };
+}
@@ -0,0 +1,113 @@
+import type pg from "pg";
+import DataLoader from "dataloader";
+import type { PgEnumUsage } from "../types.js";
+import { PgEnumUsageSchema } from "../types.js";
+
+/**
+ * Interface for enum usage query filtering options
+ */
+export interface EnumUsageQueryOptions {
+  /** Filter by enum type OIDs */
+  enumTypeOids?: number[];
+  /** Include system schemas */
+  includeSystemSchemas?: boolean;
+}
+
+/**
+ * Database query functions for the columns and composite fields typed with an enum
+ */
+export const enumUsageQueries = {
+  /**
+   * Query enum usages with various filtering options. A column uses an enum when its
+   * type is the enum itself or reaches it through any nesting of arrays and domains.
+   */
+  async query(
+    client: pg.Client | pg.PoolClient,
+    options: EnumUsageQueryOptions = {}
+  ): Promise<PgEnumUsage[]> {
+    const { enumTypeOids, includeSystemSchemas } = options;
+
+    // Build the WHERE clauses based on filter options
+    const enumConditions: string[] = [`t.typtype = 'e'`];
+    const conditions: string[] = [
+      `a.attnum > 0`,
+      `NOT a.attisdropped`,
+      `c.relkind IN ('r', 'p', 'v', 'm', 'f', 'c')`,
+    ];
+    const params: any[] = [];
+
+    if (enumTypeOids && enumTypeOids.length > 0) {
+      enumConditions.push(`t.oid = ANY($${params.length + 1})`);
+      params.push(enumTypeOids);
+    }
+
+    // Exclude system schemas unless specifically included
+    if (!includeSystemSchemas) {
+      conditions.push(
+        `n.nspname NOT IN ('pg_toast', 'pg_catalog', 'information_schema', 'pg_temp')`
+      );
+    }
+
+    const result = await client.query(
+      `
+      WITH RECURSIVE enum_types(enumtypid, typid) AS (
+        SELECT t.oid, t.oid
+        FROM pg_catalog.pg_type t
+        WHERE ${enumConditions.join(" AND ")}
+        UNION
+        SELECT et.enumtypid, t.oid
+        FROM enum_types et
+        JOIN pg_catalog.pg_type ut ON ut.oid = et.typid
+        JOIN pg_catalog.pg_type t ON t.oid = ut.typarray OR t.typbasetype = et.typid
+      )
+      SELECT
+        et.enumtypid,
+        a.attrelid,
+        a.attnum,
+        c.relkind,
+        c.reltype
+      FROM enum_types et
+      JOIN pg_catalog.pg_attribute a ON a.atttypid = et.typid
+      JOIN pg_catalog.pg_class c ON c.oid = a.attrelid
+      JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+      WHERE ${conditions.join(" AND ")}
+      ORDER BY et.enumtypid, n.nspname, c.relname, a.attnum
+      `,
+      params
+    );
+
+    return result.rows.map((row) => PgEnumUsageSchema.parse(row));
+  },
+};
+
+/**
+ * Create DataLoaders for enum usages
+ * @param client - PostgreSQL database client
+ * @returns DataLoaders and utility functions for efficient enum usage queries
+ */
+export function createEnumUsageLoaders(client: pg.Client | pg.PoolClient) {
+  /**
+   * DataLoader for loading the columns and composite fields typed with an enum by type OID
+   */
+  const enumUsagesByTypeLoader = new DataLoader<number, PgEnumUsage[]>(async (typeOids) => {
+    const usages = await enumUsageQueries.query(client, {
+      enumTypeOids: [...new Set(typeOids)],
+      includeSystemSchemas: true,
+    });
+
+    // Group usages by enum type OID
+    const usagesByType = new Map<number, PgEnumUsage[]>();
+    usages.forEach((usage) => {
+      const list = usagesByType.get(usage.enumtypid) || [];
+      list.push(usage);
+      usagesByType.set(usage.enumtypid, list);
+    });
+
+    // Return usages in the same order as requested type OIDs
+    return typeOids.map((oid) => usagesByType.get(oid) || []);
+  });
+
+  return {
+    enumUsagesByTypeLoader,
+  };
+}
@@ -25,12 +25,22 @@ export const enumQueries = {
    * Query enums with various filtering options
    */
   async query(client: Client | PoolClient, options: EnumQueryOptions = {}): Promise<PgEnum[]> {
+    // OIDs are cast to int8 in enumvalues as JSON renders the oid type as a string
     let query = `
       SELECT 
         e.enumtypid,
         t.typname as enumname,
         n.nspname as schemaname,
-        ARRAY_AGG(e.enumlabel ORDER BY e.enumsortorder) as enumlabels
+        ARRAY_AGG(e.enumlabel ORDER BY e.enumsortorder) as enumlabels,
+        JSON_AGG(
+          JSON_BUILD_OBJECT(
+            'oid', e.oid::int8,
+            'enumtypid', e.enumtypid::int8,
+            'enumlabel', e.enumlabel,
+            'enumsortorder', e.enumsortorder
+          )
+          ORDER BY e.enumsortorder
+        ) as enumvalues
       FROM pg_catalog.pg_enum e
       JOIN pg_catalog.pg_type t ON e.enumtypid = t.oid
       JOIN pg_catalog.pg_namespace n ON t.typnamespace = n.oid
@@ -0,0 +1,112 @@
+import type pg from "pg";
+import DataLoader from "dataloader";
+import type { PgEventTrigger } from "../types.js";
+import { PgEventTriggerSchema } from "../types.js";
+
+/**
+ * Interface for event trigger query filtering options
+ */
+export interface EventTriggerQueryOptions {
+  /** Filter by event trigger OIDs */
+  oids?: number[];
+  /** Filter by event names (ddl_command_start, ddl_command_end, sql_drop, ...) */
+  events?: string[];
+}
+
+/**
+ * Database query functions for PostgreSQL event triggers
+ */
+export const eventTriggerQueries = {
+  /**
+   * Query event triggers with various filtering options
+   */
+  async query(
+    client: pg.Client | pg.PoolClient,
+    options: EventTriggerQueryOptions = {}
+  ): Promise<PgEventTrigger[]> {
+    const { oids, events } = options;
+
+    // Build the WHERE clause based on filter options
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (oids && oids.length > 0) {
+      conditions.push(`e.oid = ANY($${params.length + 1})`);
+      params.push(oids);
+    }
+
+    if (events && events.length > 0) {
+      conditions.push(`e.evtevent = ANY($${params.length + 1})`);
+      params.push(events);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const result = await client.query(
+      `
+      SELECT
+        e.oid,
+        e.evtname,
+        e.evtevent,
+        e.evtowner,
+        e.evtfoid,
+        e.evtenabled,
+        e.evttags
+      FROM pg_catalog.pg_event_trigger e
+      ${whereClause}
+      ORDER BY e.evtname
+      `,
+      params
+    );
+
+    return result.rows.map((row) => PgEventTriggerSchema.parse(row));
+  },
+
+  /**
+   * Get a single event trigger by OID
+   */
+  async byOid(client: pg.Client | pg.PoolClient, oid: number): Promise<PgEventTrigger | null> {
+    const triggers = await this.query(client, { oids: [oid] });
+    return triggers.length > 0 ? triggers[0] : null;
+  },
+};
+
+/**
+ * Create DataLoaders for PostgreSQL event triggers
+ * @param client - PostgreSQL database client
+ * @returns DataLoaders and utility functions for efficient event trigger queries
+ */
+export function createEventTriggerLoaders(client: pg.Client | pg.PoolClient) {
+  /**
+   * DataLoader for loading event triggers by OID
+   */
+  const eventTriggerLoader = new DataLoader<number, PgEventTrigger | null>(async (oids) => {
+    const triggers = await eventTriggerQueries.query(client, {
+      oids: [...new Set(oids)],
+    });
+
+    // Create a map for fast lookup by OID
+    const triggerMap = new Map<number, PgEventTrigger>();
+    triggers.forEach((evt) => {
+      triggerMap.set(evt.oid, evt);
+    });
+
+    // Return event triggers in the same order as requested OIDs
+    return oids.map((oid) => triggerMap.get(oid) || null);
+  });
+
+  /**
+   * Function to get all event triggers with optional filtering
+   */
+  const getAllEventTriggers = async (
+    filter?: (evt: PgEventTrigger) => boolean
+  ): Promise<PgEventTrigger[]> => {
+    const triggers = await eventTriggerQueries.query(client);
+    return filter ? triggers.filter(filter) : triggers;
+  };
+
+  return {
+    eventTriggerLoader,
+    getAllEventTriggers,
+  };
+}
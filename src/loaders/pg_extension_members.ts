@@ -0,0 +1,136 @@
+import type pg from "pg";
+import DataLoader from "dataloader";
+import type { PgExtensionMember } from "../types.js";
+import { PgExtensionMemberSchema } from "../types.js";
+
+/**
+ * Identifies a possible extension member: the catalog it lives in and its OID
+ */
+export interface ExtensionMemberKey {
+  /** OID of the system catalog containing the object */
+  classid: number;
+  /** OID of the object */
+  objid: number;
+}
+
+/**
+ * Interface for extension member query filtering options
+ */
+export interface ExtensionMemberQueryOptions {
+  /** Filter by the OIDs of the owning extensions */
+  extensionOids?: number[];
+  /** Only load membership of these objects */
+  objects?: ExtensionMemberKey[];
+}
+
+/**
+ * Database query functions for objects owned by extensions (pg_depend with deptype 'e')
+ */
+export const extensionMemberQueries = {
+  /**
+   * Query extension members with various filtering options
+   */
+  async query(
+    client: pg.Client | pg.PoolClient,
+    options: ExtensionMemberQueryOptions = {}
+  ): Promise<PgExtensionMember[]> {
+    const { extensionOids, objects } = options;
+
+    // Build the WHERE clause based on filter options
+    const conditions: string[] = [
+      `d.refclassid = 'pg_catalog.pg_extension'::regclass`,
+      `d.deptype = 'e'`,
+    ];
+    const params: any[] = [];
+
+    if (extensionOids && extensionOids.length > 0) {
+      conditions.push(`d.refobjid = ANY($${params.length + 1})`);
+      params.push(extensionOids);
+    }
+
+    if (objects && objects.length > 0) {
+      conditions.push(
+        `(d.classid, d.objid) IN (SELECT * FROM unnest($${params.length + 1}::oid[], $${params.length + 2}::oid[]))`
+      );
+      params.push(
+        objects.map((o) => o.classid),
+        objects.map((o) => o.objid)
+      );
+    }
+
+    const result = await client.query(
+      `
+      SELECT
+        d.classid,
+        d.objid,
+        d.refobjid AS extoid
+      FROM pg_catalog.pg_depend d
+      WHERE ${conditions.join(" AND ")}
+      ORDER BY d.refobjid, d.classid, d.objid
+      `,
+      params
+    );
+
+    return result.rows.map((row) => PgExtensionMemberSchema.parse(row));
+  },
+};
+
+/**
+ * Create DataLoaders for objects owned by extensions
+ * @param client - PostgreSQL database client
+ * @returns DataLoaders and utility functions for efficient extension member queries
+ */
+export function createExtensionMemberLoaders(client: pg.Client | pg.PoolClient) {
+  const keyFor = (key: ExtensionMemberKey) => `${key.classid}:${key.objid}`;
+
+  /**
+   * DataLoader for loading the objects owned by an extension, keyed by extension OID
+   */
+  const extensionMembersByExtensionLoader = new DataLoader<number, PgExtensionMember[]>(
+    async (extensionOids) => {
+      const members = await extensionMemberQueries.query(client, {
+        extensionOids: [...new Set(extensionOids)],
+      });
+
+      // Group members by extension OID
+      const membersByExtension = new Map<number, PgExtensionMember[]>();
+      extensionOids.forEach((oid) => membersByExtension.set(oid, []));
+
+      members.forEach((m) => {
+        const extensionMembers = membersByExtension.get(m.extoid) || [];
+        extensionMembers.push(m);
+        membersByExtension.set(m.extoid, extensionMembers);
+      });
+
+      // Return members in the same order as requested extension OIDs
+      return extensionOids.map((oid) => membersByExtension.get(oid) || []);
+    }
+  );
+
+  /**
+   * DataLoader for loading the OID of the extension owning an object, keyed by (classid, objid)
+   */
+  const extensionOwnerLoader = new DataLoader<ExtensionMemberKey, number | null, string>(
+    async (keys) => {
+      const members = await extensionMemberQueries.query(client, { objects: [...keys] });
+
+      // Create a map for fast lookup by key
+      const ownerMap = new Map<string, number>();
+      members.forEach((m) => {
+        ownerMap.set(keyFor(m), m.extoid);
+      });
+
+      // Return owning extension OIDs in the same order as requested keys
+      return keys.map((key) => ownerMap.get(keyFor(key)) ?? null);
+    },
+    {
+      // Unique cache key for each object
+      cacheKeyFn: keyFor,
+    }
+  );
+
+  return {
+    extensionMembersByExtensionLoader,
+    extensionOwnerLoader,
+  };
+}
@@ -0,0 +1,116 @@
+import type pg from "pg";
+import DataLoader from "dataloader";
+import type { PgForeignDataWrapper } from "../types.js";
+import { PgForeignDataWrapperSchema } from "../types.js";
+
+/**
+ * Interface for foreign data wrapper query filtering options
+ */
+export interface ForeignDataWrapperQueryOptions {
+  /** Filter by foreign data wrapper OIDs */
+  oids?: number[];
+  /** Filter by foreign data wrapper names */
+  names?: string[];
+}
+
+/**
+ * Database query functions for PostgreSQL foreign data wrappers
+ */
+export const foreignDataWrapperQueries = {
+  /**
+   * Query foreign data wrappers with various filtering options
+   */
+  async query(
+    client: pg.Client | pg.PoolClient,
+    options: ForeignDataWrapperQueryOptions = {}
+  ): Promise<PgForeignDataWrapper[]> {
+    const { oids, names } = options;
+
+    // Build the WHERE clause based on filter options
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (oids && oids.length > 0) {
+      conditions.push(`w.oid = ANY($${params.length + 1})`);
+      params.push(oids);
+    }
+
+    if (names && names.length > 0) {
+      conditions.push(`w.fdwname = ANY($${params.length + 1})`);
+      params.push(names);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const result = await client.query(
+      `
+      SELECT
+        w.oid,
+        w.fdwname,
+        w.fdwowner,
+        w.fdwhandler,
+        w.fdwvalidator,
+        w.fdwoptions
+      FROM pg_catalog.pg_foreign_data_wrapper w
+      ${whereClause}
+      ORDER BY w.fdwname
+      `,
+      params
+    );
+
+    return result.rows.map((row) => PgForeignDataWrapperSchema.parse(row));
+  },
+
+  /**
+   * Get a single foreign data wrapper by OID
+   */
+  async byOid(
+    client: pg.Client | pg.PoolClient,
+    oid: number
+  ): Promise<PgForeignDataWrapper | null> {
+    const wrappers = await this.query(client, { oids: [oid] });
+    return wrappers.length > 0 ? wrappers[0] : null;
+  },
+};
+
+/**
+ * Create DataLoaders for PostgreSQL foreign data wrappers
+ * @param client - PostgreSQL database client
+ * @returns DataLoaders and utility functions for efficient foreign data wrapper queries
+ */
+export function createForeignDataWrapperLoaders(client: pg.Client | pg.PoolClient) {
+  /**
+   * DataLoader for loading foreign data wrappers by OID
+   */
+  const foreignDataWrapperLoader = new DataLoader<number, PgForeignDataWrapper | null>(
+    async (oids) => {
+      const wrappers = await foreignDataWrapperQueries.query(client, {
+        oids: [...new Set(oids)],
+      });
+
+      // Create a map for fast lookup by OID
+      const wrapperMap = new Map<number, PgForeignDataWrapper>();
+      wrappers.forEach((fdw) => {
+        wrapperMap.set(fdw.oid, fdw);
+      });
+
+      // Return foreign data wrappers in the same order as requested OIDs
+      return oids.map((oid) => wrapperMap.get(oid) || null);
+    }
+  );
+
+  /**
+   * Function to get all foreign data wrappers with optional filtering
+   */
+  const getAllForeignDataWrappers = async (
+    filter?: (fdw: PgForeignDataWrapper) => boolean
+  ): Promise<PgForeignDataWrapper[]> => {
+    const wrappers = await foreignDataWrapperQueries.query(client);
+    return filter ? wrappers.filter(filter) : wrappers;
+  };
+
+  return {
+    foreignDataWrapperLoader,
+    getAllForeignDataWrappers,
+  };
+}
@@ -0,0 +1,137 @@
+import type pg from "pg";
+import DataLoader from "dataloader";
+import type { PgForeignServer } from "../types.js";
+import { PgForeignServerSchema } from "../types.js";
+
+/**
+ * Interface for foreign server query filtering options
+ */
+export interface ForeignServerQueryOptions {
+  /** Filter by foreign server OIDs */
+  oids?: number[];
+  /** Filter by the OIDs of the foreign data wrappers the servers use */
+  wrapperOids?: number[];
+}
+
+/**
+ * Database query functions for PostgreSQL foreign servers
+ */
+export const foreignServerQueries = {
+  /**
+   * Query foreign servers with various filtering options
+   */
+  async query(
+    client: pg.Client | pg.PoolClient,
+    options: ForeignServerQueryOptions = {}
+  ): Promise<PgForeignServer[]> {
+    const { oids, wrapperOids } = options;
+
+    // Build the WHERE clause based on filter options
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (oids && oids.length > 0) {
+      conditions.push(`s.oid = ANY($${params.length + 1})`);
+      params.push(oids);
+    }
+
+    if (wrapperOids && wrapperOids.length > 0) {
+      conditions.push(`s.srvfdw = ANY($${params.length + 1})`);
+      params.push(wrapperOids);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const result = await client.query(
+      `
+      SELECT
+        s.oid,
+        s.srvname,
+        s.srvowner,
+        s.srvfdw,
+        s.srvtype,
+        s.srvversion,
+        s.srvoptions
+      FROM pg_catalog.pg_foreign_server s
+      ${whereClause}
+      ORDER BY s.srvname
+      `,
+      params
+    );
+
+    return result.rows.map((row) => PgForeignServerSchema.parse(row));
+  },
+
+  /**
+   * Get a single foreign server by OID
+   */
+  async byOid(client: pg.Client | pg.PoolClient, oid: number): Promise<PgForeignServer | null> {
+    const servers = await this.query(client, { oids: [oid] });
+    return servers.length > 0 ? servers[0] : null;
+  },
+};
+
+/**
+ * Create DataLoaders for PostgreSQL foreign servers
+ * @param client - PostgreSQL database client
+ * @returns DataLoaders and utility functions for efficient foreign server queries
+ */
+export function createForeignServerLoaders(client: pg.Client | pg.PoolClient) {
+  /**
+   * DataLoader for loading foreign servers by OID
+   */
+  const foreignServerLoader = new DataLoader<number, PgForeignServer | null>(async (oids) => {
+    const servers = await foreignServerQueries.query(client, {
+      oids: [...new Set(oids)],
+    });
+
+    // Create a map for fast lookup by OID
+    const serverMap = new Map<number, PgForeignServer>();
+    servers.forEach((srv) => {
+      serverMap.set(srv.oid, srv);
+    });
+
+    // Return foreign servers in the same order as requested OIDs
+    return oids.map((oid) => serverMap.get(oid) || null);
+  });
+
+  /**
+   * DataLoader for loading the servers of a foreign data wrapper, keyed by wrapper OID
+   */
+  const foreignServersByWrapperLoader = new DataLoader<number, PgForeignServer[]>(
+    async (wrapperOids) => {
+      const servers = await foreignServerQueries.query(client, {
+        wrapperOids: [...new Set(wrapperOids)],
+      });
+
+      // Group foreign servers by wrapper OID
+      const serversByWrapper = new Map<number, PgForeignServer[]>();
+      wrapperOids.forEach((oid) => serversByWrapper.set(oid, []));
+
+      servers.forEach((srv) => {
+        const wrapperServers = serversByWrapper.get(srv.srvfdw) || [];
+        wrapperServers.push(srv);
+        serversByWrapper.set(srv.srvfdw, wrapperServers);
+      });
+
+      // Return foreign servers in the same order as requested wrapper OIDs
+      return wrapperOids.map((oid) => serversByWrapper.get(oid) || []);
+    }
+  );
+
+  /**
+   * Function to get all foreign servers with optional filtering
+   */
+  const getAllForeignServers = async (
+    filter?: (srv: PgForeignServer) => boolean
+  ): Promise<PgForeignServer[]> => {
+    const servers = await foreignServerQueries.query(client);
+    return filter ? servers.filter(filter) : servers;
+  };
+
+  return {
+    foreignServerLoader,
+    foreignServersByWrapperLoader,
+    getAllForeignServers,
+  };
+}
@@ -0,0 +1,135 @@
+import type pg from "pg";
+import DataLoader from "dataloader";
+import type { PgForeignTable } from "../types.js";
+import { PgForeignTableSchema } from "../types.js";
+
+/**
+ * Interface for foreign table query filtering options
+ */
+export interface ForeignTableQueryOptions {
+  /** Filter by foreign table OIDs (pg_foreign_table.ftrelid) */
+  relationOids?: number[];
+  /** Filter by the OIDs of the foreign servers the tables belong to */
+  serverOids?: number[];
+  /** Include system schemas */
+  includeSystemSchemas?: boolean;
+}
+
+/**
+ * Database query functions for PostgreSQL foreign tables
+ */
+export const foreignTableQueries = {
+  /**
+   * Query foreign tables with various filtering options
+   */
+  async query(
+    client: pg.Client | pg.PoolClient,
+    options: ForeignTableQueryOptions = {}
+  ): Promise<PgForeignTable[]> {
+    const { relationOids, serverOids, includeSystemSchemas } = options;
+
+    // Build the WHERE clause based on filter options
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (relationOids && relationOids.length > 0) {
+      conditions.push(`ft.ftrelid = ANY($${params.length + 1})`);
+      params.push(relationOids);
+    }
+
+    if (serverOids && serverOids.length > 0) {
+      conditions.push(`ft.ftserver = ANY($${params.length + 1})`);
+      params.push(serverOids);
+    }
+
+    // Exclude system schemas unless specifically included
+    if (!includeSystemSchemas) {
+      conditions.push(
+        `n.nspname NOT IN ('pg_toast', 'pg_catalog', 'information_schema', 'pg_temp')`
+      );
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const result = await client.query(
+      `
+      SELECT
+        ft.ftrelid,
+        ft.ftserver,
+        ft.ftoptions
+      FROM pg_catalog.pg_foreign_table ft
+      JOIN pg_catalog.pg_class c ON c.oid = ft.ftrelid
+      JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+      ${whereClause}
+      ORDER BY n.nspname, c.relname
+      `,
+      params
+    );
+
+    return result.rows.map((row) => PgForeignTableSchema.parse(row));
+  },
+
+  /**
+   * Get a single foreign table by OID
+   */
+  async byOid(client: pg.Client | pg.PoolClient, oid: number): Promise<PgForeignTable | null> {
+    const tables = await this.query(client, { relationOids: [oid] });
+    return tables.length > 0 ? tables[0] : null;
+  },
+};
+
+/**
+ * Create DataLoaders for PostgreSQL foreign tables
+ * @param client - PostgreSQL database client
+ * @returns DataLoaders and utility functions for efficient foreign table queries
+ */
+export function createForeignTableLoaders(client: pg.Client | pg.PoolClient) {
+  /**
+   * DataLoader for loading foreign table details by relation OID
+   */
+  const foreignTableLoader = new DataLoader<number, PgForeignTable | null>(async (oids) => {
+    const tables = await foreignTableQueries.query(client, {
+      relationOids: [...new Set(oids)],
+      includeSystemSchemas: true,
+    });
+
+    // Create a map for fast lookup by OID
+    const tableMap = new Map<number, PgForeignTable>();
+    tables.forEach((ft) => {
+      tableMap.set(ft.ftrelid, ft);
+    });
+
+    // Return foreign tables in the same order as requested OIDs
+    return oids.map((oid) => tableMap.get(oid) || null);
+  });
+
+  /**
+   * DataLoader for loading the foreign tables of a server, keyed by server OID
+   */
+  const foreignTablesByServerLoader = new DataLoader<number, PgForeignTable[]>(
+    async (serverOids) => {
+      const tables = await foreignTableQueries.query(client, {
+        serverOids: [...new Set(serverOids)],
+        includeSystemSchemas: true,
+      });
+
+      // Group foreign tables by server OID
+      const tablesByServer = new Map<number, PgForeignTable[]>();
+      serverOids.forEach((oid) => tablesByServer.set(oid, []));
+
+      tables.forEach((ft) => {
+        const serverTables = tablesByServer.get(ft.ftserver) || [];
+        serverTables.push(ft);
+        tablesByServer.set(ft.ftserver, serverTables);
+      });
+
+      // Return foreign tables in the same order as requested server OIDs
+      return serverOids.map((oid) => tablesByServer.get(oid) || []);
+    }
+  );
+
+  return {
+    foreignTableLoader,
+    foreignTablesByServerLoader,
+  };
+}
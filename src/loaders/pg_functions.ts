@@ -0,0 +1,186 @@
+import type pg from "pg";
+import DataLoader from "dataloader";
+import type { PgFunction } from "../types.js";
+import { PgFunctionSchema } from "../types.js";
+
+/**
+ * Interface for function query filtering options
+ */
+export interface FunctionQueryOptions {
+  /** Filter by function OIDs */
+  oids?: number[];
+  /** Filter by namespace OIDs */
+  namespaceOids?: number[];
+  /** Filter by function names */
+  functionNames?: string[];
+  /** Filter by schema names */
+  schemaNames?: string[];
+  /** Include system schemas */
+  includeSystemSchemas?: boolean;
+}
+
+/**
+ * Database query functions for PostgreSQL functions and procedures
+ */
+export const functionQueries = {
+  /**
+   * Query functions with various filtering options
+   */
+  async query(
+    client: pg.Client | pg.PoolClient,
+    options: FunctionQueryOptions = {}
+  ): Promise<PgFunction[]> {
+    const { oids, namespaceOids, functionNames, schemaNames, includeSystemSchemas } = options;
+
+    // Build the WHERE clause based on filter options
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (oids && oids.length > 0) {
+      conditions.push(`p.oid = ANY($${params.length + 1})`);
+      params.push(oids);
+    }
+
+    if (namespaceOids && namespaceOids.length > 0) {
+      conditions.push(`p.pronamespace = ANY($${params.length + 1})`);
+      params.push(namespaceOids);
+    }
+
+    if (functionNames && functionNames.length > 0) {
+      conditions.push(`p.proname = ANY($${params.length + 1})`);
+      params.push(functionNames);
+    }
+
+    if (schemaNames && schemaNames.length > 0) {
+      conditions.push(`n.nspname = ANY($${params.length + 1})`);
+      params.push(schemaNames);
+    }
+
+    // Exclude system schemas unless specifically included
+    if (!includeSystemSchemas) {
+      conditions.push(
+        `n.nspname NOT IN ('pg_toast', 'pg_catalog', 'information_schema', 'pg_temp')`
+      );
+    }
+
+    // Build and execute the SQL query
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    // pg_get_functiondef() raises an error for aggregates, so those have no definition
+    const result = await client.query(
+      `
+      SELECT
+        p.oid,
+        p.proname,
+        p.pronamespace,
+        p.prokind,
+        l.lanname,
+        p.provolatile,
+        p.proisstrict,
+        p.prosecdef,
+        p.proretset,
+        p.prorettype,
+        p.pronargs,
+        p.pronargdefaults,
+        coalesce(p.proallargtypes, p.proargtypes::oid[]) as proargtypes,
+        p.proargmodes::text[] as proargmodes,
+        p.proargnames,
+        p.proconfig,
+        case when p.prokind <> 'a' then pg_get_functiondef(p.oid) end as prodef
+      FROM pg_catalog.pg_proc p
+      JOIN pg_catalog.pg_namespace n ON p.pronamespace = n.oid
+      JOIN pg_catalog.pg_language l ON p.prolang = l.oid
+      ${whereClause}
+      ORDER BY n.nspname, p.proname, p.oid
+      `,
+      params
+    );
+
+    return result.rows.map((row) => PgFunctionSchema.parse(row));
+  },
+
+  /**
+   * Get a single function by OID
+   */
+  async byOid(client: pg.Client | pg.PoolClient, oid: number): Promise<PgFunction | null> {
+    const functions = await this.query(client, { oids: [oid] });
+    return functions.length > 0 ? functions[0] : null;
+  },
+
+  /**
+   * Get functions by name and schema
+   */
+  async byNameAndSchema(
+    client: pg.Client | pg.PoolClient,
+    schemaName: string,
+    functionName: string
+  ): Promise<PgFunction[]> {
+    return this.query(client, {
+      functionNames: [functionName],
+      schemaNames: [schemaName],
+    });
+  },
+};
+
+/**
+ * Create DataLoaders for PostgreSQL functions
+ * @param client - PostgreSQL database client
+ * @returns DataLoaders and utility functions for efficient function queries
+ */
+export function createFunctionLoaders(client: pg.Client | pg.PoolClient) {
+  /**
+   * DataLoader for loading functions by OID
+   */
+  const functionLoader = new DataLoader<number, PgFunction | null>(async (oids) => {
+    const functions = await functionQueries.query(client, {
+      oids: [...new Set(oids)],
+      includeSystemSchemas: true,
+    });
+
+    // Create a map for fast lookup by OID
+    const functionMap = new Map<number, PgFunction>();
+    functions.forEach((fn) => {
+      functionMap.set(fn.oid, fn);
+    });
+
+    // Return functions in the same order as requested OIDs
+    return oids.map((oid) => functionMap.get(oid) || null);
+  });
+
+  /**
+   * DataLoader for loading functions by namespace OID
+   */
+  const functionsByNamespaceLoader = new DataLoader<number, PgFunction[]>(async (namespaceOids) => {
+    const functions = await functionQueries.query(client, {
+      namespaceOids: [...new Set(namespaceOids)],
+      includeSystemSchemas: true,
+    });
+
+    // Group functions by namespace OID
+    const functionsByNamespace = new Map<number, PgFunction[]>();
+    namespaceOids.forEach((oid) => functionsByNamespace.set(oid, []));
+
+    functions.forEach((fn) => {
+      const namespaceFunctions = functionsByNamespace.get(fn.pronamespace) || [];
+      namespaceFunctions.push(fn);
+      functionsByNamespace.set(fn.pronamespace, namespaceFunctions);
+    });
+
+    // Return functions in the same order as requested namespace OIDs
+    return namespaceOids.map((oid) => functionsByNamespace.get(oid) || []);
+  });
+
+  /**
+   * Function to get all functions with optional filtering
+   */
+  const getAllFunctions = async (filter?: (fn: PgFunction) => boolean): Promise<PgFunction[]> => {
+    const functions = await functionQueries.query(client);
+    return filter ? functions.filter(filter) : functions;
+  };
+
+  return {
+    functionLoader,
+    functionsByNamespaceLoader,
+    getAllFunctions,
+  };
+}
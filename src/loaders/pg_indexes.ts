@@ -55,7 +55,8 @@ export const indexQueries = {
       );
     }
 
-    // Build and execute the SQL query
+    // Build and execute the SQL query. indclass and indoption only cover the
+    // key columns, so included columns get no operator class or sort options.
     const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
 
     const result = await client.query(
@@ -65,7 +66,27 @@ export const indexQueries = {
         x.indrelid,
         am.amname as indexam,
         x.indkey::text as indkey,
-        pg_get_indexdef(x.indexrelid) as indexdef
+        pg_get_indexdef(x.indexrelid) as indexdef,
+        x.indisunique,
+        x.indisprimary,
+        x.indisexclusion,
+        x.indisvalid,
+        x.indnkeyatts,
+        pg_get_expr(x.indpred, x.indrelid) as indpred,
+        pg_indexam_has_property(am.oid, 'can_order') as indcanorder,
+        (
+          SELECT json_agg(
+            json_build_object(
+              'attnum', k.attnum,
+              'expression', CASE WHEN k.attnum = 0
+                THEN pg_get_indexdef(x.indexrelid, k.ord::int, true) END,
+              'opclass', oc.opcname,
+              'option', x.indoption[k.ord - 1]
+            ) ORDER BY k.ord
+          )
+          FROM unnest(x.indkey::int2[]) WITH ORDINALITY AS k(attnum, ord)
+          LEFT JOIN pg_catalog.pg_opclass oc ON oc.oid = x.indclass[k.ord - 1]
+        ) as indcolumns
       FROM pg_catalog.pg_index x
       JOIN pg_catalog.pg_class ic ON x.indexrelid = ic.oid
       JOIN pg_catalog.pg_class tc ON x.indrelid = tc.oid
@@ -0,0 +1,124 @@
+import type pg from "pg";
+import DataLoader from "dataloader";
+import type { PgInherits } from "../types.js";
+import { PgInheritsSchema } from "../types.js";
+
+/**
+ * Interface for inheritance query filtering options
+ */
+export interface InheritsQueryOptions {
+  /** Filter by child table OIDs (pg_inherits.inhrelid) */
+  childOids?: number[];
+  /** Filter by parent table OIDs (pg_inherits.inhparent) */
+  parentOids?: number[];
+  /** Include system schemas */
+  includeSystemSchemas?: boolean;
+}
+
+/**
+ * Database query functions for classic table inheritance (CREATE TABLE ... INHERITS)
+ */
+export const inheritsQueries = {
+  /**
+   * Query inheritance links with various filtering options
+   */
+  async query(
+    client: pg.Client | pg.PoolClient,
+    options: InheritsQueryOptions = {}
+  ): Promise<PgInherits[]> {
+    const { childOids, parentOids, includeSystemSchemas } = options;
+
+    // Build the WHERE clause based on filter options. Partitions are also
+    // listed in pg_inherits but are exposed through the partition API.
+    const conditions: string[] = ["NOT c.relispartition"];
+    const params: any[] = [];
+
+    if (childOids && childOids.length > 0) {
+      conditions.push(`i.inhrelid = ANY($${params.length + 1})`);
+      params.push(childOids);
+    }
+
+    if (parentOids && parentOids.length > 0) {
+      conditions.push(`i.inhparent = ANY($${params.length + 1})`);
+      params.push(parentOids);
+    }
+
+    // Exclude system schemas unless specifically included
+    if (!includeSystemSchemas) {
+      conditions.push(
+        `n.nspname NOT IN ('pg_toast', 'pg_catalog', 'information_schema', 'pg_temp')`
+      );
+    }
+
+    const result = await client.query(
+      `
+      SELECT
+        i.inhrelid,
+        i.inhparent,
+        i.inhseqno
+      FROM pg_catalog.pg_inherits i
+      JOIN pg_catalog.pg_class c ON c.oid = i.inhrelid
+      JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+      WHERE ${conditions.join(" AND ")}
+      ORDER BY n.nspname, c.relname, i.inhseqno
+      `,
+      params
+    );
+
+    return result.rows.map((row) => PgInheritsSchema.parse(row));
+  },
+};
+
+/**
+ * Create DataLoaders for table inheritance
+ * @param client - PostgreSQL database client
+ * @returns DataLoaders and utility functions for efficient inheritance queries
+ */
+export function createInheritsLoaders(client: pg.Client | pg.PoolClient) {
+  /**
+   * DataLoader for loading the parents of a table by child OID, in INHERITS order
+   */
+  const inheritsByChildLoader = new DataLoader<number, PgInherits[]>(async (childOids) => {
+    const links = await inheritsQueries.query(client, {
+      childOids: [...new Set(childOids)],
+      includeSystemSchemas: true,
+    });
+
+    // Group inheritance links by child OID
+    const linksByChild = new Map<number, PgInherits[]>();
+    links.forEach((link) => {
+      const list = linksByChild.get(link.inhrelid) || [];
+      list.push(link);
+      linksByChild.set(link.inhrelid, list);
+    });
+
+    // Return parents in the same order as requested child OIDs
+    return childOids.map((oid) => linksByChild.get(oid) || []);
+  });
+
+  /**
+   * DataLoader for loading the children of a table by parent OID
+   */
+  const inheritsByParentLoader = new DataLoader<number, PgInherits[]>(async (parentOids) => {
+    const links = await inheritsQueries.query(client, {
+      parentOids: [...new Set(parentOids)],
+      includeSystemSchemas: true,
+    });
+
+    // Group inheritance links by parent OID
+    const linksByParent = new Map<number, PgInherits[]>();
+    links.forEach((link) => {
+      const list = linksByParent.get(link.inhparent) || [];
+      list.push(link);
+      linksByParent.set(link.inhparent, list);
+    });
+
+    // Return children in the same order as requested parent OIDs
+    return parentOids.map((oid) => linksByParent.get(oid) || []);
+  });
+
+  return {
+    inheritsByChildLoader,
+    inheritsByParentLoader,
+  };
+}
@@ -0,0 +1,134 @@
+import type pg from "pg";
+import DataLoader from "dataloader";
+import type { PgOperator } from "../types.js";
+import { PgOperatorSchema } from "../types.js";
+
+/**
+ * Interface for operator query filtering options
+ */
+export interface OperatorQueryOptions {
+  /** Filter by operator OIDs */
+  oids?: number[];
+  /** Filter by the OIDs of the schemas containing the operators */
+  namespaceOids?: number[];
+  /** Include system schemas */
+  includeSystemSchemas?: boolean;
+}
+
+/**
+ * Database query functions for operators from pg_operator
+ */
+export const operatorQueries = {
+  /**
+   * Query operators with various filtering options
+   */
+  async query(
+    client: pg.Client | pg.PoolClient,
+    options: OperatorQueryOptions = {}
+  ): Promise<PgOperator[]> {
+    const { oids, namespaceOids, includeSystemSchemas } = options;
+
+    // Build the WHERE clause based on filter options
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (oids && oids.length > 0) {
+      conditions.push(`o.oid = ANY($${params.length + 1})`);
+      params.push(oids);
+    }
+
+    if (namespaceOids && namespaceOids.length > 0) {
+      conditions.push(`o.oprnamespace = ANY($${params.length + 1})`);
+      params.push(namespaceOids);
+    }
+
+    // Exclude system schemas unless specifically included
+    if (!includeSystemSchemas) {
+      conditions.push(
+        `n.nspname NOT IN ('pg_toast', 'pg_catalog', 'information_schema', 'pg_temp')`
+      );
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const result = await client.query(
+      `
+      SELECT
+        o.oid,
+        o.oprname,
+        o.oprnamespace,
+        o.oprowner,
+        o.oprkind,
+        o.oprcanmerge,
+        o.oprcanhash,
+        o.oprleft,
+        o.oprright,
+        o.oprresult,
+        o.oprcom,
+        o.oprnegate,
+        o.oprcode::oid AS oprcode,
+        o.oprrest::oid AS oprrest,
+        o.oprjoin::oid AS oprjoin
+      FROM pg_catalog.pg_operator o
+      JOIN pg_catalog.pg_namespace n ON n.oid = o.oprnamespace
+      ${whereClause}
+      ORDER BY n.nspname, o.oprname, o.oprleft, o.oprright
+      `,
+      params
+    );
+
+    return result.rows.map((row) => PgOperatorSchema.parse(row));
+  },
+};
+
+/**
+ * Create DataLoaders for operators
+ * @param client - PostgreSQL database client
+ * @returns DataLoaders and utility functions for efficient operator queries
+ */
+export function createOperatorLoaders(client: pg.Client | pg.PoolClient) {
+  /**
+   * DataLoader for loading operators by OID
+   */
+  const operatorLoader = new DataLoader<number, PgOperator | null>(async (oids) => {
+    const operators = await operatorQueries.query(client, {
+      oids: [...new Set(oids)],
+      includeSystemSchemas: true,
+    });
+
+    // Create a map for fast lookup by OID
+    const operatorMap = new Map<number, PgOperator>();
+    operators.forEach((op) => {
+      operatorMap.set(op.oid, op);
+    });
+
+    // Return operators in the same order as requested OIDs
+    return oids.map((oid) => operatorMap.get(oid) || null);
+  });
+
+  /**
+   * DataLoader for loading the operators in a schema by namespace OID
+   */
+  const operatorsByNamespaceLoader = new DataLoader<number, PgOperator[]>(async (namespaceOids) => {
+    const operators = await operatorQueries.query(client, {
+      namespaceOids: [...new Set(namespaceOids)],
+      includeSystemSchemas: true,
+    });
+
+    // Group operators by namespace OID
+    const operatorsByNamespace = new Map<number, PgOperator[]>();
+    operators.forEach((op) => {
+      const list = operatorsByNamespace.get(op.oprnamespace) || [];
+      list.push(op);
+      operatorsByNamespace.set(op.oprnamespace, list);
+    });
+
+    // Return operators in the same order as requested namespace OIDs
+    return namespaceOids.map((oid) => operatorsByNamespace.get(oid) || []);
+  });
+
+  return {
+    operatorLoader,
+    operatorsByNamespaceLoader,
+  };
+}
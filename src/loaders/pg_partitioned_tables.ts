@@ -0,0 +1,114 @@
+import type pg from "pg";
+import DataLoader from "dataloader";
+import type { PgPartitionedTable } from "../types.js";
+import { PgPartitionedTableSchema } from "../types.js";
+
+/**
+ * Interface for partitioned table query filtering options
+ */
+export interface PartitionedTableQueryOptions {
+  /** Filter by partitioned table OIDs (pg_partitioned_table.partrelid) */
+  relationOids?: number[];
+  /** Include system schemas */
+  includeSystemSchemas?: boolean;
+}
+
+/**
+ * Database query functions for the partitioning scheme of partitioned tables
+ */
+export const partitionedTableQueries = {
+  /**
+   * Query partitioned tables with various filtering options
+   */
+  async query(
+    client: pg.Client | pg.PoolClient,
+    options: PartitionedTableQueryOptions = {}
+  ): Promise<PgPartitionedTable[]> {
+    const { relationOids, includeSystemSchemas } = options;
+
+    // Build the WHERE clause based on filter options
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (relationOids && relationOids.length > 0) {
+      conditions.push(`pt.partrelid = ANY($${params.length + 1})`);
+      params.push(relationOids);
+    }
+
+    // Exclude system schemas unless specifically included
+    if (!includeSystemSchemas) {
+      conditions.push(
+        `n.nspname NOT IN ('pg_toast', 'pg_catalog', 'information_schema', 'pg_temp')`
+      );
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const result = await client.query(
+      `
+      SELECT
+        pt.partrelid,
+        pt.partstrat,
+        pt.partattrs::int2[] AS partattrs,
+        pg_catalog.pg_get_partkeydef(pt.partrelid) AS partkeydef
+      FROM pg_catalog.pg_partitioned_table pt
+      JOIN pg_catalog.pg_class c ON c.oid = pt.partrelid
+      JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+      ${whereClause}
+      ORDER BY n.nspname, c.relname
+      `,
+      params
+    );
+
+    return result.rows.map((row) => PgPartitionedTableSchema.parse(row));
+  },
+
+  /**
+   * Get the partitioning scheme of a single table by OID
+   */
+  async byOid(client: pg.Client | pg.PoolClient, oid: number): Promise<PgPartitionedTable | null> {
+    const tables = await this.query(client, { relationOids: [oid] });
+    return tables.length > 0 ? tables[0] : null;
+  },
+};
+
+/**
+ * Create DataLoaders for PostgreSQL partitioned tables
+ * @param client - PostgreSQL database client
+ * @returns DataLoaders and utility functions for efficient partitioned table queries
+ */
+export function createPartitionedTableLoaders(client: pg.Client | pg.PoolClient) {
+  /**
+   * DataLoader for loading the partitioning scheme by table OID
+   */
+  const partitionedTableLoader = new DataLoader<number, PgPartitionedTable | null>(async (oids) => {
+    const tables = await partitionedTableQueries.query(client, {
+      relationOids: [...new Set(oids)],
+      includeSystemSchemas: true,
+    });
+
+    // Create a map for fast lookup by OID
+    const tableMap = new Map<number, PgPartitionedTable>();
+    tables.forEach((table) => {
+      tableMap.set(table.partrelid, table);
+    });
+
+    // Return partitioning schemes in the same order as requested OIDs
+    return oids.map((oid) => tableMap.get(oid) || null);
+  });
+
+  /**
+   * Function to get all partitioned tables with optional filtering
+   */
+  const getAllPartitionedTables = async (
+    filter?: (table: PgPartitionedTable) => boolean
+  ): Promise<PgPartitionedTable[]> => {
+    const tables = await partitionedTableQueries.query(client);
+    return filter ? tables.filter(filter) : tables;
+  };
+
+  return {
+    partitionedTableLoader,
+    getAllPartitionedTables,
+  };
+}
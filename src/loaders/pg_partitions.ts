@@ -0,0 +1,132 @@
+import type pg from "pg";
+import DataLoader from "dataloader";
+import type { PgPartition } from "../types.js";
+import { PgPartitionSchema } from "../types.js";
+
+/**
+ * Interface for partition query filtering options
+ */
+export interface PartitionQueryOptions {
+  /** Filter by partition OIDs (pg_inherits.inhrelid) */
+  partitionOids?: number[];
+  /** Filter by partitioned parent OIDs (pg_inherits.inhparent) */
+  parentOids?: number[];
+  /** Include system schemas */
+  includeSystemSchemas?: boolean;
+}
+
+/**
+ * Database query functions for partitions attached to partitioned tables
+ */
+export const partitionQueries = {
+  /**
+   * Query partitions with various filtering options
+   */
+  async query(
+    client: pg.Client | pg.PoolClient,
+    options: PartitionQueryOptions = {}
+  ): Promise<PgPartition[]> {
+    const { partitionOids, parentOids, includeSystemSchemas } = options;
+
+    // Build the WHERE clause based on filter options. Plain inheritance
+    // children are also listed in pg_inherits but are not partitions.
+    const conditions: string[] = ["c.relispartition"];
+    const params: any[] = [];
+
+    if (partitionOids && partitionOids.length > 0) {
+      conditions.push(`i.inhrelid = ANY($${params.length + 1})`);
+      params.push(partitionOids);
+    }
+
+    if (parentOids && parentOids.length > 0) {
+      conditions.push(`i.inhparent = ANY($${params.length + 1})`);
+      params.push(parentOids);
+    }
+
+    // Exclude system schemas unless specifically included
+    if (!includeSystemSchemas) {
+      conditions.push(
+        `n.nspname NOT IN ('pg_toast', 'pg_catalog', 'information_schema', 'pg_temp')`
+      );
+    }
+
+    const result = await client.query(
+      `
+      SELECT
+        i.inhrelid,
+        i.inhparent,
+        pg_catalog.pg_get_expr(c.relpartbound, c.oid) AS partbound
+      FROM pg_catalog.pg_inherits i
+      JOIN pg_catalog.pg_class c ON c.oid = i.inhrelid
+      JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+      WHERE ${conditions.join(" AND ")}
+      ORDER BY i.inhparent, n.nspname, c.relname
+      `,
+      params
+    );
+
+    return result.rows.map((row) => PgPartitionSchema.parse(row));
+  },
+
+  /**
+   * Get the partition bound of a single partition by OID
+   */
+  async byOid(client: pg.Client | pg.PoolClient, oid: number): Promise<PgPartition | null> {
+    const partitions = await this.query(client, { partitionOids: [oid] });
+    return partitions.length > 0 ? partitions[0] : null;
+  },
+};
+
+/**
+ * Create DataLoaders for PostgreSQL partitions
+ * @param client - PostgreSQL database client
+ * @returns DataLoaders and utility functions for efficient partition queries
+ */
+export function createPartitionLoaders(client: pg.Client | pg.PoolClient) {
+  /**
+   * DataLoader for loading partition bounds by partition OID
+   */
+  const partitionLoader = new DataLoader<number, PgPartition | null>(async (oids) => {
+    const partitions = await partitionQueries.query(client, {
+      partitionOids: [...new Set(oids)],
+      includeSystemSchemas: true,
+    });
+
+    // Create a map for fast lookup by OID
+    const partitionMap = new Map<number, PgPartition>();
+    partitions.forEach((part) => {
+      partitionMap.set(part.inhrelid, part);
+    });
+
+    // Return partitions in the same order as requested OIDs
+    return oids.map((oid) => partitionMap.get(oid) || null);
+  });
+
+  /**
+   * DataLoader for loading the partitions of a partitioned table by parent OID
+   */
+  const partitionsByParentLoader = new DataLoader<number, PgPartition[]>(async (parentOids) => {
+    const partitions = await partitionQueries.query(client, {
+      parentOids: [...new Set(parentOids)],
+      includeSystemSchemas: true,
+    });
+
+    // Group partitions by parent OID
+    const partitionsByParent = new Map<number, PgPartition[]>();
+    parentOids.forEach((oid) => partitionsByParent.set(oid, []));
+
+    partitions.forEach((part) => {
+      const parentPartitions = partitionsByParent.get(part.inhparent) || [];
+      parentPartitions.push(part);
+      partitionsByParent.set(part.inhparent, parentPartitions);
+    });
+
+    // Return partitions in the same order as requested parent OIDs
+    return parentOids.map((oid) => partitionsByParent.get(oid) || []);
+  });
+
+  return {
+    partitionLoader,
+    partitionsByParentLoader,
+  };
+}
@@ -0,0 +1,124 @@
+import type pg from "pg";
+import DataLoader from "dataloader";
+import type { PgPublicationRel } from "../types.js";
+import { PgPublicationRelSchema } from "../types.js";
+
+/**
+ * Interface for publication table query filtering options
+ */
+export interface PublicationRelQueryOptions {
+  /** Filter by publication OIDs (pg_publication_rel.prpubid) */
+  publicationOids?: number[];
+  /** Filter by published table OIDs (pg_publication_rel.prrelid) */
+  relationOids?: number[];
+}
+
+/**
+ * Database query functions for tables added to publications with FOR TABLE
+ */
+export const publicationRelQueries = {
+  /**
+   * Query publication tables with various filtering options
+   */
+  async query(
+    client: pg.Client | pg.PoolClient,
+    options: PublicationRelQueryOptions = {}
+  ): Promise<PgPublicationRel[]> {
+    const { publicationOids, relationOids } = options;
+
+    // Build the WHERE clause based on filter options
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (publicationOids && publicationOids.length > 0) {
+      conditions.push(`pr.prpubid = ANY($${params.length + 1})`);
+      params.push(publicationOids);
+    }
+
+    if (relationOids && relationOids.length > 0) {
+      conditions.push(`pr.prrelid = ANY($${params.length + 1})`);
+      params.push(relationOids);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const result = await client.query(
+      `
+      SELECT
+        pr.oid,
+        pr.prpubid,
+        pr.prrelid,
+        pg_catalog.pg_get_expr(pr.prqual, pr.prrelid) AS prqual,
+        pr.prattrs::int2[] AS prattrs
+      FROM pg_catalog.pg_publication_rel pr
+      JOIN pg_catalog.pg_class c ON c.oid = pr.prrelid
+      JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+      ${whereClause}
+      ORDER BY pr.prpubid, n.nspname, c.relname
+      `,
+      params
+    );
+
+    return result.rows.map((row) => PgPublicationRelSchema.parse(row));
+  },
+};
+
+/**
+ * Create DataLoaders for publication tables
+ * @param client - PostgreSQL database client
+ * @returns DataLoaders and utility functions for efficient publication table queries
+ */
+export function createPublicationRelLoaders(client: pg.Client | pg.PoolClient) {
+  /**
+   * DataLoader for loading the tables of a publication, keyed by publication OID
+   */
+  const publicationRelsByPublicationLoader = new DataLoader<number, PgPublicationRel[]>(
+    async (publicationOids) => {
+      const rels = await publicationRelQueries.query(client, {
+        publicationOids: [...new Set(publicationOids)],
+      });
+
+      // Group publication tables by publication OID
+      const relsByPublication = new Map<number, PgPublicationRel[]>();
+      publicationOids.forEach((oid) => relsByPublication.set(oid, []));
+
+      rels.forEach((rel) => {
+        const publicationRels = relsByPublication.get(rel.prpubid) || [];
+        publicationRels.push(rel);
+        relsByPublication.set(rel.prpubid, publicationRels);
+      });
+
+      // Return publication tables in the same order as requested publication OIDs
+      return publicationOids.map((oid) => relsByPublication.get(oid) || []);
+    }
+  );
+
+  /**
+   * DataLoader for loading the explicit publication memberships of a table, keyed by table OID
+   */
+  const publicationRelsByRelationLoader = new DataLoader<number, PgPublicationRel[]>(
+    async (relationOids) => {
+      const rels = await publicationRelQueries.query(client, {
+        relationOids: [...new Set(relationOids)],
+      });
+
+      // Group publication tables by table OID
+      const relsByRelation = new Map<number, PgPublicationRel[]>();
+      relationOids.forEach((oid) => relsByRelation.set(oid, []));
+
+      rels.forEach((rel) => {
+        const relationRels = relsByRelation.get(rel.prrelid) || [];
+        relationRels.push(rel);
+        relsByRelation.set(rel.prrelid, relationRels);
+      });
+
+      // Return publication tables in the same order as requested table OIDs
+      return relationOids.map((oid) => relsByRelation.get(oid) || []);
+    }
+  );
+
+  return {
+    publicationRelsByPublicationLoader,
+    publicationRelsByRelationLoader,
+  };
+}
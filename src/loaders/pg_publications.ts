@@ -0,0 +1,121 @@
+import type pg from "pg";
+import DataLoader from "dataloader";
+import type { PgPublication } from "../types.js";
+import { PgPublicationSchema } from "../types.js";
+
+/**
+ * Interface for publication query filtering options
+ */
+export interface PublicationQueryOptions {
+  /** Filter by publication OIDs */
+  oids?: number[];
+  /** Filter by publication names */
+  names?: string[];
+}
+
+/**
+ * Database query functions for PostgreSQL publications
+ */
+export const publicationQueries = {
+  /**
+   * Query publications with various filtering options
+   */
+  async query(
+    client: pg.Client | pg.PoolClient,
+    options: PublicationQueryOptions = {}
+  ): Promise<PgPublication[]> {
+    const { oids, names } = options;
+
+    // Build the WHERE clause based on filter options
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (oids && oids.length > 0) {
+      conditions.push(`p.oid = ANY($${params.length + 1})`);
+      params.push(oids);
+    }
+
+    if (names && names.length > 0) {
+      conditions.push(`p.pubname = ANY($${params.length + 1})`);
+      params.push(names);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    // Schemas published with FOR TABLES IN SCHEMA live in pg_publication_namespace
+    const result = await client.query(
+      `
+      SELECT
+        p.oid,
+        p.pubname,
+        p.pubowner,
+        p.puballtables,
+        p.pubinsert,
+        p.pubupdate,
+        p.pubdelete,
+        p.pubtruncate,
+        p.pubviaroot,
+        ARRAY(
+          SELECT pn.pnnspid
+          FROM pg_catalog.pg_publication_namespace pn
+          WHERE pn.pnpubid = p.oid
+          ORDER BY pn.pnnspid
+        ) AS pubschemas
+      FROM pg_catalog.pg_publication p
+      ${whereClause}
+      ORDER BY p.pubname
+      `,
+      params
+    );
+
+    return result.rows.map((row) => PgPublicationSchema.parse(row));
+  },
+
+  /**
+   * Get a single publication by OID
+   */
+  async byOid(client: pg.Client | pg.PoolClient, oid: number): Promise<PgPublication | null> {
+    const publications = await this.query(client, { oids: [oid] });
+    return publications.length > 0 ? publications[0] : null;
+  },
+};
+
+/**
+ * Create DataLoaders for PostgreSQL publications
+ * @param client - PostgreSQL database client
+ * @returns DataLoaders and utility functions for efficient publication queries
+ */
+export function createPublicationLoaders(client: pg.Client | pg.PoolClient) {
+  /**
+   * DataLoader for loading publications by OID
+   */
+  const publicationLoader = new DataLoader<number, PgPublication | null>(async (oids) => {
+    const publications = await publicationQueries.query(client, {
+      oids: [...new Set(oids)],
+    });
+
+    // Create a map for fast lookup by OID
+    const publicationMap = new Map<number, PgPublication>();
+    publications.forEach((pub) => {
+      publicationMap.set(pub.oid, pub);
+    });
+
+    // Return publications in the same order as requested OIDs
+    return oids.map((oid) => publicationMap.get(oid) || null);
+  });
+
+  /**
+   * Function to get all publications with optional filtering
+   */
+  const getAllPublications = async (
+    filter?: (pub: PgPublication) => boolean
+  ): Promise<PgPublication[]> => {
+    const publications = await publicationQueries.query(client);
+    return filter ? publications.filter(filter) : publications;
+  };
+
+  return {
+    publicationLoader,
+    getAllPublications,
+  };
+}
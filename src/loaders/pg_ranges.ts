@@ -0,0 +1,126 @@
+import type pg from "pg";
+import DataLoader from "dataloader";
+import type { PgRange } from "../types.js";
+import { PgRangeSchema } from "../types.js";
+
+/**
+ * Interface for range query filtering options
+ */
+export interface RangeQueryOptions {
+  /** Filter by range type OIDs */
+  rangeTypeOids?: number[];
+  /** Filter by multirange type OIDs */
+  multirangeTypeOids?: number[];
+  /** Include system schemas */
+  includeSystemSchemas?: boolean;
+}
+
+/**
+ * Database query functions for range types from pg_range
+ */
+export const rangeQueries = {
+  /**
+   * Query range types with various filtering options
+   */
+  async query(
+    client: pg.Client | pg.PoolClient,
+    options: RangeQueryOptions = {}
+  ): Promise<PgRange[]> {
+    const { rangeTypeOids, multirangeTypeOids, includeSystemSchemas } = options;
+
+    // Build the WHERE clause based on filter options
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (rangeTypeOids && rangeTypeOids.length > 0) {
+      conditions.push(`r.rngtypid = ANY($${params.length + 1})`);
+      params.push(rangeTypeOids);
+    }
+
+    if (multirangeTypeOids && multirangeTypeOids.length > 0) {
+      conditions.push(`r.rngmultitypid = ANY($${params.length + 1})`);
+      params.push(multirangeTypeOids);
+    }
+
+    // Exclude system schemas unless specifically included
+    if (!includeSystemSchemas) {
+      conditions.push(
+        `n.nspname NOT IN ('pg_toast', 'pg_catalog', 'information_schema', 'pg_temp')`
+      );
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const result = await client.query(
+      `
+      SELECT
+        r.rngtypid,
+        r.rngsubtype,
+        r.rngmultitypid,
+        r.rngcollation,
+        coll.collname,
+        r.rngcanonical::oid AS rngcanonical,
+        r.rngsubdiff::oid AS rngsubdiff
+      FROM pg_catalog.pg_range r
+      JOIN pg_catalog.pg_type t ON t.oid = r.rngtypid
+      JOIN pg_catalog.pg_namespace n ON n.oid = t.typnamespace
+      LEFT JOIN pg_catalog.pg_collation coll ON coll.oid = r.rngcollation
+      ${whereClause}
+      ORDER BY n.nspname, t.typname
+      `,
+      params
+    );
+
+    return result.rows.map((row) => PgRangeSchema.parse(row));
+  },
+};
+
+/**
+ * Create DataLoaders for range types
+ * @param client - PostgreSQL database client
+ * @returns DataLoaders and utility functions for efficient range queries
+ */
+export function createRangeLoaders(client: pg.Client | pg.PoolClient) {
+  /**
+   * DataLoader for loading the pg_range entry of a range type by its OID
+   */
+  const rangeLoader = new DataLoader<number, PgRange | null>(async (oids) => {
+    const ranges = await rangeQueries.query(client, {
+      rangeTypeOids: [...new Set(oids)],
+      includeSystemSchemas: true,
+    });
+
+    // Create a map for fast lookup by range type OID
+    const rangeMap = new Map<number, PgRange>();
+    ranges.forEach((range) => {
+      rangeMap.set(range.rngtypid, range);
+    });
+
+    // Return ranges in the same order as requested OIDs
+    return oids.map((oid) => rangeMap.get(oid) || null);
+  });
+
+  /**
+   * DataLoader for loading the pg_range entry of a range type by its multirange type OID
+   */
+  const rangeByMultirangeLoader = new DataLoader<number, PgRange | null>(async (oids) => {
+    const ranges = await rangeQueries.query(client, {
+      multirangeTypeOids: [...new Set(oids)],
+      includeSystemSchemas: true,
+    });
+
+    // Create a map for fast lookup by multirange type OID
+    const rangeMap = new Map<number, PgRange>();
+    ranges.forEach((range) => {
+      rangeMap.set(range.rngmultitypid, range);
+    });
+
+    // Return ranges in the same order as requested OIDs
+    return oids.map((oid) => rangeMap.get(oid) || null);
+  });
+
+  return {
+    rangeLoader,
+    rangeByMultirangeLoader,
+  };
+}
@@ -0,0 +1,98 @@
+import type pg from "pg";
+import DataLoader from "dataloader";
+import type { PgRelationStorage } from "../types.js";
+import { PgRelationStorageSchema } from "../types.js";
+
+/**
+ * Interface for relation storage query filtering options
+ */
+export interface RelationStorageQueryOptions {
+  /** Filter by relation OIDs */
+  relationOids?: number[];
+  /** Include system schemas */
+  includeSystemSchemas?: boolean;
+}
+
+/**
+ * Database query functions for the persistence, storage options, tablespace,
+ * row estimate and on-disk sizes of tables, materialized views and indexes
+ */
+export const relationStorageQueries = {
+  /**
+   * Query relation storage details with various filtering options
+   */
+  async query(
+    client: pg.Client | pg.PoolClient,
+    options: RelationStorageQueryOptions = {}
+  ): Promise<PgRelationStorage[]> {
+    const { relationOids, includeSystemSchemas } = options;
+
+    // Build the WHERE clause based on filter options
+    const conditions: string[] = [`c.relkind IN ('r', 'p', 'm', 'i', 'I')`];
+    const params: any[] = [];
+
+    if (relationOids && relationOids.length > 0) {
+      conditions.push(`c.oid = ANY($${params.length + 1})`);
+      params.push(relationOids);
+    }
+
+    // Exclude system schemas unless specifically included
+    if (!includeSystemSchemas) {
+      conditions.push(
+        `n.nspname NOT IN ('pg_toast', 'pg_catalog', 'information_schema', 'pg_temp')`
+      );
+    }
+
+    const result = await client.query(
+      `
+      SELECT
+        c.oid AS relid,
+        c.relpersistence,
+        c.reloptions,
+        ts.spcname,
+        c.reltuples,
+        pg_catalog.pg_total_relation_size(c.oid) AS totalsize,
+        pg_catalog.pg_table_size(c.oid) AS tablesize,
+        pg_catalog.pg_indexes_size(c.oid) AS indexsize
+      FROM pg_catalog.pg_class c
+      JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+      LEFT JOIN pg_catalog.pg_tablespace ts ON ts.oid = c.reltablespace
+      WHERE ${conditions.join(" AND ")}
+      ORDER BY n.nspname, c.relname
+      `,
+      params
+    );
+
+    return result.rows.map((row) => PgRelationStorageSchema.parse(row));
+  },
+};
+
+/**
+ * Create DataLoaders for relation storage details
+ * @param client - PostgreSQL database client
+ * @returns DataLoaders and utility functions for efficient relation storage queries
+ */
+export function createRelationStorageLoaders(client: pg.Client | pg.PoolClient) {
+  /**
+   * DataLoader for loading the storage details of a relation by OID
+   */
+  const relationStorageLoader = new DataLoader<number, PgRelationStorage | null>(async (oids) => {
+    const storage = await relationStorageQueries.query(client, {
+      relationOids: [...new Set(oids)],
+      includeSystemSchemas: true,
+    });
+
+    // Create a map for fast lookup by OID
+    const storageMap = new Map<number, PgRelationStorage>();
+    storage.forEach((s) => {
+      storageMap.set(s.relid, s);
+    });
+
+    // Return storage details in the same order as requested OIDs
+    return oids.map((oid) => storageMap.get(oid) || null);
+  });
+
+  return {
+    relationStorageLoader,
+  };
+}
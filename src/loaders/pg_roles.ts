@@ -50,7 +50,15 @@ export const roleQueries = {
 
     const result = await client.query(
       `
-      SELECT oid, rolname, rolsuper
+      SELECT oid, rolname, rolsuper,
+        rolinherit,
+        rolcreaterole,
+        rolcreatedb,
+        rolcanlogin,
+        rolreplication,
+        rolbypassrls,
+        rolconnlimit,
+        to_json(rolvaliduntil) #>> '{}' AS rolvaliduntil
       FROM pg_catalog.pg_roles r
       ${whereClause}
       ORDER BY rolname
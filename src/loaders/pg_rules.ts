@@ -0,0 +1,136 @@
+import type pg from "pg";
+import DataLoader from "dataloader";
+import type { PgRule } from "../types.js";
+import { PgRuleSchema } from "../types.js";
+
+/**
+ * Interface for rule query filtering options
+ */
+export interface RuleQueryOptions {
+  /** Filter by rule OIDs */
+  oids?: number[];
+  /** Filter by the OIDs of the relations the rules belong to */
+  relationOids?: number[];
+  /** Include system schemas */
+  includeSystemSchemas?: boolean;
+}
+
+/**
+ * Database query functions for PostgreSQL rewrite rules
+ */
+export const ruleQueries = {
+  /**
+   * Query rules with various filtering options.
+   * The _RETURN rules implementing views are not included.
+   */
+  async query(
+    client: pg.Client | pg.PoolClient,
+    options: RuleQueryOptions = {}
+  ): Promise<PgRule[]> {
+    const { oids, relationOids, includeSystemSchemas } = options;
+
+    // Build the WHERE clause based on filter options
+    const conditions: string[] = [`r.rulename <> '_RETURN'`];
+    const params: any[] = [];
+
+    if (oids && oids.length > 0) {
+      conditions.push(`r.oid = ANY($${params.length + 1})`);
+      params.push(oids);
+    }
+
+    if (relationOids && relationOids.length > 0) {
+      conditions.push(`r.ev_class = ANY($${params.length + 1})`);
+      params.push(relationOids);
+    }
+
+    // Exclude system schemas unless specifically included
+    if (!includeSystemSchemas) {
+      conditions.push(
+        `n.nspname NOT IN ('pg_toast', 'pg_catalog', 'information_schema', 'pg_temp')`
+      );
+    }
+
+    const result = await client.query(
+      `
+      SELECT
+        r.oid,
+        r.rulename,
+        r.ev_class,
+        r.ev_type,
+        r.ev_enabled,
+        r.is_instead,
+        pg_catalog.pg_get_ruledef(r.oid, true) AS ruledef
+      FROM pg_catalog.pg_rewrite r
+      JOIN pg_catalog.pg_class c ON c.oid = r.ev_class
+      JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+      WHERE ${conditions.join(" AND ")}
+      ORDER BY n.nspname, c.relname, r.rulename
+      `,
+      params
+    );
+
+    return result.rows.map((row) => PgRuleSchema.parse(row));
+  },
+
+  /**
+   * Get a single rule by OID
+   */
+  async byOid(client: pg.Client | pg.PoolClient, oid: number): Promise<PgRule | null> {
+    const rules = await this.query(client, { oids: [oid], includeSystemSchemas: true });
+    return rules.length > 0 ? rules[0] : null;
+  },
+};
+
+/**
+ * Create DataLoaders for PostgreSQL rewrite rules
+ * @param client - PostgreSQL database client
+ * @returns DataLoaders and utility functions for efficient rule queries
+ */
+export function createRuleLoaders(client: pg.Client | pg.PoolClient) {
+  /**
+   * DataLoader for loading rules by OID
+   */
+  const ruleLoader = new DataLoader<number, PgRule | null>(async (oids) => {
+    const rules = await ruleQueries.query(client, {
+      oids: [...new Set(oids)],
+      includeSystemSchemas: true,
+    });
+
+    // Create a map for fast lookup by OID
+    const ruleMap = new Map<number, PgRule>();
+    rules.forEach((rule) => {
+      ruleMap.set(rule.oid, rule);
+    });
+
+    // Return rules in the same order as requested OIDs
+    return oids.map((oid) => ruleMap.get(oid) || null);
+  });
+
+  /**
+   * DataLoader for loading the rules of a relation, keyed by relation OID
+   */
+  const rulesByRelationLoader = new DataLoader<number, PgRule[]>(async (relationOids) => {
+    const rules = await ruleQueries.query(client, {
+      relationOids: [...new Set(relationOids)],
+      includeSystemSchemas: true,
+    });
+
+    // Group rules by relation OID
+    const rulesByRelation = new Map<number, PgRule[]>();
+    relationOids.forEach((oid) => rulesByRelation.set(oid, []));
+
+    rules.forEach((rule) => {
+      const relationRules = rulesByRelation.get(rule.ev_class) || [];
+      relationRules.push(rule);
+      rulesByRelation.set(rule.ev_class, relationRules);
+    });
+
+    // Return rules in the same order as requested relation OIDs
+    return relationOids.map((oid) => rulesByRelation.get(oid) || []);
+  });
+
+  return {
+    ruleLoader,
+    rulesByRelationLoader,
+  };
+}
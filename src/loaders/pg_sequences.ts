@@ -0,0 +1,160 @@
+import type pg from "pg";
+import DataLoader from "dataloader";
+import type { PgSequence } from "../types.js";
+import { PgSequenceSchema } from "../types.js";
+
+/**
+ * Interface for sequence query filtering options
+ */
+export interface SequenceQueryOptions {
+  /** Filter by sequence OIDs (pg_sequence.seqrelid) */
+  sequenceOids?: number[];
+  /** Filter by the OIDs of the tables owning the sequences */
+  ownerRelationOids?: number[];
+  /** Include system schemas */
+  includeSystemSchemas?: boolean;
+}
+
+/**
+ * Database query functions for PostgreSQL sequences
+ */
+export const sequenceQueries = {
+  /**
+   * Query sequences with various filtering options
+   */
+  async query(
+    client: pg.Client | pg.PoolClient,
+    options: SequenceQueryOptions = {}
+  ): Promise<PgSequence[]> {
+    const { sequenceOids, ownerRelationOids, includeSystemSchemas } = options;
+
+    // Build the WHERE clause based on filter options
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (sequenceOids && sequenceOids.length > 0) {
+      conditions.push(`s.seqrelid = ANY($${params.length + 1})`);
+      params.push(sequenceOids);
+    }
+
+    if (ownerRelationOids && ownerRelationOids.length > 0) {
+      conditions.push(`d.refobjid = ANY($${params.length + 1})`);
+      params.push(ownerRelationOids);
+    }
+
+    // Exclude system schemas unless specifically included
+    if (!includeSystemSchemas) {
+      conditions.push(
+        `n.nspname NOT IN ('pg_toast', 'pg_catalog', 'information_schema', 'pg_temp')`
+      );
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    // Serial columns own their sequence through an 'a' (auto) dependency,
+    // identity columns through an 'i' (internal) dependency
+    const result = await client.query(
+      `
+      SELECT
+        s.seqrelid,
+        s.seqtypid,
+        s.seqstart,
+        s.seqincrement,
+        s.seqmax,
+        s.seqmin,
+        s.seqcache,
+        s.seqcycle,
+        d.refobjid AS ownerrelid,
+        d.refobjsubid AS ownerattnum
+      FROM pg_catalog.pg_sequence s
+      JOIN pg_catalog.pg_class c ON c.oid = s.seqrelid
+      JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+      LEFT JOIN pg_catalog.pg_depend d
+        ON d.classid = 'pg_catalog.pg_class'::regclass
+        AND d.objid = s.seqrelid
+        AND d.refclassid = 'pg_catalog.pg_class'::regclass
+        AND d.refobjsubid > 0
+        AND d.deptype IN ('a', 'i')
+      ${whereClause}
+      ORDER BY n.nspname, c.relname
+      `,
+      params
+    );
+
+    return result.rows.map((row) => PgSequenceSchema.parse(row));
+  },
+
+  /**
+   * Get a single sequence by OID
+   */
+  async byOid(client: pg.Client | pg.PoolClient, oid: number): Promise<PgSequence | null> {
+    const sequences = await this.query(client, { sequenceOids: [oid] });
+    return sequences.length > 0 ? sequences[0] : null;
+  },
+};
+
+/**
+ * Create DataLoaders for PostgreSQL sequences
+ * @param client - PostgreSQL database client
+ * @returns DataLoaders and utility functions for efficient sequence queries
+ */
+export function createSequenceLoaders(client: pg.Client | pg.PoolClient) {
+  /**
+   * DataLoader for loading sequence parameters by sequence OID
+   */
+  const sequenceLoader = new DataLoader<number, PgSequence | null>(async (oids) => {
+    const sequences = await sequenceQueries.query(client, {
+      sequenceOids: [...new Set(oids)],
+      includeSystemSchemas: true,
+    });
+
+    // Create a map for fast lookup by OID
+    const sequenceMap = new Map<number, PgSequence>();
+    sequences.forEach((seq) => {
+      sequenceMap.set(seq.seqrelid, seq);
+    });
+
+    // Return sequences in the same order as requested OIDs
+    return oids.map((oid) => sequenceMap.get(oid) || null);
+  });
+
+  /**
+   * DataLoader for loading the sequences owned by columns of a table, keyed by table OID
+   */
+  const sequencesByOwnerRelationLoader = new DataLoader<number, PgSequence[]>(
+    async (relationOids) => {
+      const sequences = await sequenceQueries.query(client, {
+        ownerRelationOids: [...new Set(relationOids)],
+        includeSystemSchemas: true,
+      });
+
+      // Group sequences by owning relation OID
+      const sequencesByRelation = new Map<number, PgSequence[]>();
+      relationOids.forEach((oid) => sequencesByRelation.set(oid, []));
+
+      sequences.forEach((seq) => {
+        if (seq.ownerrelid === null) return;
+        const relationSequences = sequencesByRelation.get(seq.ownerrelid) || [];
+        relationSequences.push(seq);
+        sequencesByRelation.set(seq.ownerrelid, relationSequences);
+      });
+
+      // Return sequences in the same order as requested relation OIDs
+      return relationOids.map((oid) => sequencesByRelation.get(oid) || []);
+    }
+  );
+
+  /**
+   * Function to get all sequences with optional filtering
+   */
+  const getAllSequences = async (filter?: (seq: PgSequence) => boolean): Promise<PgSequence[]> => {
+    const sequences = await sequenceQueries.query(client);
+    return filter ? sequences.filter(filter) : sequences;
+  };
+
+  return {
+    sequenceLoader,
+    sequencesByOwnerRelationLoader,
+    getAllSequences,
+  };
+}
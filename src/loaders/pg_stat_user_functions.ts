@@ -0,0 +1,95 @@
+import type pg from "pg";
+import DataLoader from "dataloader";
+import type { PgStatUserFunction } from "../types.js";
+import { PgStatUserFunctionSchema } from "../types.js";
+
+/**
+ * Interface for function statistics query filtering options
+ */
+export interface FunctionStatisticsQueryOptions {
+  /** Filter by function OIDs */
+  functionOids?: number[];
+  /** Include system schemas */
+  includeSystemSchemas?: boolean;
+}
+
+/**
+ * Database query functions for cumulative function statistics from pg_stat_user_functions
+ */
+export const functionStatisticsQueries = {
+  /**
+   * Query function statistics with various filtering options
+   */
+  async query(
+    client: pg.Client | pg.PoolClient,
+    options: FunctionStatisticsQueryOptions = {}
+  ): Promise<PgStatUserFunction[]> {
+    const { functionOids, includeSystemSchemas } = options;
+
+    // Build the WHERE clause based on filter options
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (functionOids && functionOids.length > 0) {
+      conditions.push(`s.funcid = ANY($${params.length + 1})`);
+      params.push(functionOids);
+    }
+
+    // Exclude system schemas unless specifically included
+    if (!includeSystemSchemas) {
+      conditions.push(
+        `s.schemaname NOT IN ('pg_toast', 'pg_catalog', 'information_schema', 'pg_temp')`
+      );
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const result = await client.query(
+      `
+      SELECT
+        s.funcid,
+        s.calls,
+        s.total_time,
+        s.self_time
+      FROM pg_catalog.pg_stat_user_functions s
+      ${whereClause}
+      ORDER BY s.schemaname, s.funcname
+      `,
+      params
+    );
+
+    return result.rows.map((row) => PgStatUserFunctionSchema.parse(row));
+  },
+};
+
+/**
+ * Create DataLoaders for function statistics
+ * @param client - PostgreSQL database client
+ * @returns DataLoaders and utility functions for efficient function statistics queries
+ */
+export function createFunctionStatisticsLoaders(client: pg.Client | pg.PoolClient) {
+  /**
+   * DataLoader for loading the statistics of a function by OID
+   */
+  const functionStatisticsLoader = new DataLoader<number, PgStatUserFunction | null>(
+    async (oids) => {
+      const stats = await functionStatisticsQueries.query(client, {
+        functionOids: [...new Set(oids)],
+        includeSystemSchemas: true,
+      });
+
+      // Create a map for fast lookup by OID
+      const statsMap = new Map<number, PgStatUserFunction>();
+      stats.forEach((stat) => {
+        statsMap.set(stat.funcid, stat);
+      });
+
+      // Return statistics in the same order as requested OIDs
+      return oids.map((oid) => statsMap.get(oid) || null);
+    }
+  );
+
+  return {
+    functionStatisticsLoader,
+  };
+}
@@ -0,0 +1,93 @@
+import type pg from "pg";
+import DataLoader from "dataloader";
+import type { PgStatUserIndex } from "../types.js";
+import { PgStatUserIndexSchema } from "../types.js";
+
+/**
+ * Interface for index statistics query filtering options
+ */
+export interface IndexStatisticsQueryOptions {
+  /** Filter by index OIDs */
+  indexOids?: number[];
+  /** Include system schemas */
+  includeSystemSchemas?: boolean;
+}
+
+/**
+ * Database query functions for cumulative index statistics from pg_stat_user_indexes
+ */
+export const indexStatisticsQueries = {
+  /**
+   * Query index statistics with various filtering options
+   */
+  async query(
+    client: pg.Client | pg.PoolClient,
+    options: IndexStatisticsQueryOptions = {}
+  ): Promise<PgStatUserIndex[]> {
+    const { indexOids, includeSystemSchemas } = options;
+
+    // Build the WHERE clause based on filter options
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (indexOids && indexOids.length > 0) {
+      conditions.push(`s.indexrelid = ANY($${params.length + 1})`);
+      params.push(indexOids);
+    }
+
+    // Exclude system schemas unless specifically included
+    if (!includeSystemSchemas) {
+      conditions.push(
+        `s.schemaname NOT IN ('pg_toast', 'pg_catalog', 'information_schema', 'pg_temp')`
+      );
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const result = await client.query(
+      `
+      SELECT
+        s.indexrelid,
+        s.idx_scan,
+        s.idx_tup_read,
+        s.idx_tup_fetch
+      FROM pg_catalog.pg_stat_user_indexes s
+      ${whereClause}
+      ORDER BY s.schemaname, s.indexrelname
+      `,
+      params
+    );
+
+    return result.rows.map((row) => PgStatUserIndexSchema.parse(row));
+  },
+};
+
+/**
+ * Create DataLoaders for index statistics
+ * @param client - PostgreSQL database client
+ * @returns DataLoaders and utility functions for efficient index statistics queries
+ */
+export function createIndexStatisticsLoaders(client: pg.Client | pg.PoolClient) {
+  /**
+   * DataLoader for loading the statistics of a index by OID
+   */
+  const indexStatisticsLoader = new DataLoader<number, PgStatUserIndex | null>(async (oids) => {
+    const stats = await indexStatisticsQueries.query(client, {
+      indexOids: [...new Set(oids)],
+      includeSystemSchemas: true,
+    });
+
+    // Create a map for fast lookup by OID
+    const statsMap = new Map<number, PgStatUserIndex>();
+    stats.forEach((stat) => {
+      statsMap.set(stat.indexrelid, stat);
+    });
+
+    // Return statistics in the same order as requested OIDs
+    return oids.map((oid) => statsMap.get(oid) || null);
+  });
+
+  return {
+    indexStatisticsLoader,
+  };
+}
@@ -0,0 +1,109 @@
+import type pg from "pg";
+import DataLoader from "dataloader";
+import type { PgStatUserTable } from "../types.js";
+import { PgStatUserTableSchema } from "../types.js";
+
+/**
+ * Interface for table statistics query filtering options
+ */
+export interface TableStatisticsQueryOptions {
+  /** Filter by table OIDs */
+  relationOids?: number[];
+  /** Include system schemas */
+  includeSystemSchemas?: boolean;
+}
+
+/**
+ * Database query functions for cumulative table statistics from pg_stat_user_tables
+ */
+export const tableStatisticsQueries = {
+  /**
+   * Query table statistics with various filtering options
+   */
+  async query(
+    client: pg.Client | pg.PoolClient,
+    options: TableStatisticsQueryOptions = {}
+  ): Promise<PgStatUserTable[]> {
+    const { relationOids, includeSystemSchemas } = options;
+
+    // Build the WHERE clause based on filter options
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (relationOids && relationOids.length > 0) {
+      conditions.push(`s.relid = ANY($${params.length + 1})`);
+      params.push(relationOids);
+    }
+
+    // Exclude system schemas unless specifically included
+    if (!includeSystemSchemas) {
+      conditions.push(
+        `s.schemaname NOT IN ('pg_toast', 'pg_catalog', 'information_schema', 'pg_temp')`
+      );
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const result = await client.query(
+      `
+      SELECT
+        s.relid,
+        s.seq_scan,
+        s.seq_tup_read,
+        s.idx_scan,
+        s.idx_tup_fetch,
+        s.n_tup_ins,
+        s.n_tup_upd,
+        s.n_tup_del,
+        s.n_tup_hot_upd,
+        s.n_live_tup,
+        s.n_dead_tup,
+        s.n_mod_since_analyze,
+        to_json(s.last_vacuum) #>> '{}' AS last_vacuum,
+        to_json(s.last_autovacuum) #>> '{}' AS last_autovacuum,
+        to_json(s.last_analyze) #>> '{}' AS last_analyze,
+        to_json(s.last_autoanalyze) #>> '{}' AS last_autoanalyze,
+        s.vacuum_count,
+        s.autovacuum_count,
+        s.analyze_count,
+        s.autoanalyze_count
+      FROM pg_catalog.pg_stat_user_tables s
+      ${whereClause}
+      ORDER BY s.schemaname, s.relname
+      `,
+      params
+    );
+
+    return result.rows.map((row) => PgStatUserTableSchema.parse(row));
+  },
+};
+
+/**
+ * Create DataLoaders for table statistics
+ * @param client - PostgreSQL database client
+ * @returns DataLoaders and utility functions for efficient table statistics queries
+ */
+export function createTableStatisticsLoaders(client: pg.Client | pg.PoolClient) {
+  /**
+   * DataLoader for loading the statistics of a table by OID
+   */
+  const tableStatisticsLoader = new DataLoader<number, PgStatUserTable | null>(async (oids) => {
+    const stats = await tableStatisticsQueries.query(client, {
+      relationOids: [...new Set(oids)],
+      includeSystemSchemas: true,
+    });
+
+    // Create a map for fast lookup by OID
+    const statsMap = new Map<number, PgStatUserTable>();
+    stats.forEach((stat) => {
+      statsMap.set(stat.relid, stat);
+    });
+
+    // Return statistics in the same order as requested OIDs
+    return oids.map((oid) => statsMap.get(oid) || null);
+  });
+
+  return {
+    tableStatisticsLoader,
+  };
+}
@@ -0,0 +1,163 @@
+import type pg from "pg";
+import DataLoader from "dataloader";
+import type { PgStatisticExt } from "../types.js";
+import { PgStatisticExtSchema } from "../types.js";
+
+/**
+ * Interface for extended statistics query filtering options
+ */
+export interface StatisticExtQueryOptions {
+  /** Filter by statistics object OIDs */
+  oids?: number[];
+  /** Filter by the OIDs of the tables the statistics are defined on */
+  relationOids?: number[];
+  /** Filter by the OIDs of the schemas containing the statistics objects */
+  namespaceOids?: number[];
+  /** Include system schemas */
+  includeSystemSchemas?: boolean;
+}
+
+/**
+ * Database query functions for extended statistics objects created with CREATE STATISTICS
+ */
+export const statisticExtQueries = {
+  /**
+   * Query extended statistics objects with various filtering options
+   */
+  async query(
+    client: pg.Client | pg.PoolClient,
+    options: StatisticExtQueryOptions = {}
+  ): Promise<PgStatisticExt[]> {
+    const { oids, relationOids, namespaceOids, includeSystemSchemas } = options;
+
+    // Build the WHERE clause based on filter options
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (oids && oids.length > 0) {
+      conditions.push(`s.oid = ANY($${params.length + 1})`);
+      params.push(oids);
+    }
+
+    if (relationOids && relationOids.length > 0) {
+      conditions.push(`s.stxrelid = ANY($${params.length + 1})`);
+      params.push(relationOids);
+    }
+
+    if (namespaceOids && namespaceOids.length > 0) {
+      conditions.push(`s.stxnamespace = ANY($${params.length + 1})`);
+      params.push(namespaceOids);
+    }
+
+    // Exclude system schemas unless specifically included
+    if (!includeSystemSchemas) {
+      conditions.push(
+        `n.nspname NOT IN ('pg_toast', 'pg_catalog', 'information_schema', 'pg_temp')`
+      );
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    // "char"[] and int2vector have no array parsers in node-pg, so cast them to text[] and int2[]
+    const result = await client.query(
+      `
+      SELECT
+        s.oid,
+        s.stxname,
+        s.stxrelid,
+        s.stxnamespace,
+        s.stxowner,
+        s.stxkind::text[] AS stxkind,
+        s.stxkeys::int2[] AS stxkeys,
+        coalesce(pg_catalog.pg_get_statisticsobjdef_expressions(s.oid), '{}') AS stxexprs,
+        s.stxstattarget,
+        pg_catalog.pg_get_statisticsobjdef(s.oid) AS stxdef
+      FROM pg_catalog.pg_statistic_ext s
+      JOIN pg_catalog.pg_namespace n ON n.oid = s.stxnamespace
+      ${whereClause}
+      ORDER BY n.nspname, s.stxname
+      `,
+      params
+    );
+
+    return result.rows.map((row) => PgStatisticExtSchema.parse(row));
+  },
+};
+
+/**
+ * Create DataLoaders for extended statistics objects
+ * @param client - PostgreSQL database client
+ * @returns DataLoaders and utility functions for efficient extended statistics queries
+ */
+export function createStatisticExtLoaders(client: pg.Client | pg.PoolClient) {
+  /**
+   * DataLoader for loading extended statistics objects by OID
+   */
+  const statisticExtLoader = new DataLoader<number, PgStatisticExt | null>(async (oids) => {
+    const statistics = await statisticExtQueries.query(client, {
+      oids: [...new Set(oids)],
+      includeSystemSchemas: true,
+    });
+
+    // Create a map for fast lookup by OID
+    const statisticsMap = new Map<number, PgStatisticExt>();
+    statistics.forEach((stx) => {
+      statisticsMap.set(stx.oid, stx);
+    });
+
+    // Return statistics objects in the same order as requested OIDs
+    return oids.map((oid) => statisticsMap.get(oid) || null);
+  });
+
+  /**
+   * DataLoader for loading the extended statistics objects defined on a table by its OID
+   */
+  const statisticExtByRelationLoader = new DataLoader<number, PgStatisticExt[]>(
+    async (relationOids) => {
+      const statistics = await statisticExtQueries.query(client, {
+        relationOids: [...new Set(relationOids)],
+        includeSystemSchemas: true,
+      });
+
+      // Group statistics objects by table OID
+      const statisticsByRelation = new Map<number, PgStatisticExt[]>();
+      statistics.forEach((stx) => {
+        const list = statisticsByRelation.get(stx.stxrelid) || [];
+        list.push(stx);
+        statisticsByRelation.set(stx.stxrelid, list);
+      });
+
+      // Return statistics objects in the same order as requested table OIDs
+      return relationOids.map((oid) => statisticsByRelation.get(oid) || []);
+    }
+  );
+
+  /**
+   * DataLoader for loading the extended statistics objects in a schema by namespace OID
+   */
+  const statisticExtByNamespaceLoader = new DataLoader<number, PgStatisticExt[]>(
+    async (namespaceOids) => {
+      const statistics = await statisticExtQueries.query(client, {
+        namespaceOids: [...new Set(namespaceOids)],
+        includeSystemSchemas: true,
+      });
+
+      // Group statistics objects by namespace OID
+      const statisticsByNamespace = new Map<number, PgStatisticExt[]>();
+      statistics.forEach((stx) => {
+        const list = statisticsByNamespace.get(stx.stxnamespace) || [];
+        list.push(stx);
+        statisticsByNamespace.set(stx.stxnamespace, list);
+      });
+
+      // Return statistics objects in the same order as requested namespace OIDs
+      return namespaceOids.map((oid) => statisticsByNamespace.get(oid) || []);
+    }
+  );
+
+  return {
+    statisticExtLoader,
+    statisticExtByRelationLoader,
+    statisticExtByNamespaceLoader,
+  };
+}
@@ -0,0 +1,113 @@
+import type pg from "pg";
+import DataLoader from "dataloader";
+import type { PgColumnStatistics } from "../types.js";
+import { PgColumnStatisticsSchema } from "../types.js";
+
+/**
+ * Interface for column statistics query filtering options
+ */
+export interface ColumnStatisticsQueryOptions {
+  /** Filter by relation OIDs */
+  relationOids?: number[];
+  /** Include system schemas */
+  includeSystemSchemas?: boolean;
+}
+
+/**
+ * Database query functions for planner statistics of columns from pg_stats
+ */
+export const columnStatisticsQueries = {
+  /**
+   * Query column statistics with various filtering options. pg_stats only shows columns
+   * the current role can read; sample values are additionally checked per column so they
+   * stay hidden even if the view is replaced by a less strict one.
+   */
+  async query(
+    client: pg.Client | pg.PoolClient,
+    options: ColumnStatisticsQueryOptions = {}
+  ): Promise<PgColumnStatistics[]> {
+    const { relationOids, includeSystemSchemas } = options;
+
+    // Build the WHERE clause based on filter options
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (relationOids && relationOids.length > 0) {
+      conditions.push(`c.oid = ANY($${params.length + 1})`);
+      params.push(relationOids);
+    }
+
+    // Exclude system schemas unless specifically included
+    if (!includeSystemSchemas) {
+      conditions.push(
+        `n.nspname NOT IN ('pg_toast', 'pg_catalog', 'information_schema', 'pg_temp')`
+      );
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    // Tables with inheritance children have a second row covering the children, which is
+    // the only row of partitioned tables; the table's own row is preferred when present.
+    // anyarray columns are converted to text[] through their text representation.
+    const result = await client.query(
+      `
+      SELECT DISTINCT ON (a.attrelid, a.attnum)
+        a.attrelid,
+        a.attnum,
+        s.null_frac,
+        s.avg_width,
+        s.n_distinct,
+        s.correlation,
+        CASE WHEN pg_catalog.has_column_privilege(c.oid, a.attnum, 'SELECT')
+          THEN s.most_common_vals::text::text[] END AS most_common_vals,
+        CASE WHEN pg_catalog.has_column_privilege(c.oid, a.attnum, 'SELECT')
+          THEN s.most_common_freqs::float8[] END AS most_common_freqs,
+        CASE WHEN pg_catalog.has_column_privilege(c.oid, a.attnum, 'SELECT')
+          THEN s.histogram_bounds::text::text[] END AS histogram_bounds
+      FROM pg_catalog.pg_stats s
+      JOIN pg_catalog.pg_namespace n ON n.nspname = s.schemaname
+      JOIN pg_catalog.pg_class c ON c.relnamespace = n.oid AND c.relname = s.tablename
+      JOIN pg_catalog.pg_attribute a ON a.attrelid = c.oid AND a.attname = s.attname
+      ${whereClause}
+      ORDER BY a.attrelid, a.attnum, s.inherited
+      `,
+      params
+    );
+
+    return result.rows.map((row) => PgColumnStatisticsSchema.parse(row));
+  },
+};
+
+/**
+ * Create DataLoaders for column statistics
+ * @param client - PostgreSQL database client
+ * @returns DataLoaders and utility functions for efficient column statistics queries
+ */
+export function createColumnStatisticsLoaders(client: pg.Client | pg.PoolClient) {
+  /**
+   * DataLoader for loading the column statistics of a relation by OID
+   */
+  const columnStatisticsByRelationLoader = new DataLoader<number, PgColumnStatistics[]>(
+    async (relationOids) => {
+      const stats = await columnStatisticsQueries.query(client, {
+        relationOids: [...new Set(relationOids)],
+        includeSystemSchemas: true,
+      });
+
+      // Group statistics by relation OID
+      const statsByRelation = new Map<number, PgColumnStatistics[]>();
+      stats.forEach((stat) => {
+        const list = statsByRelation.get(stat.attrelid) || [];
+        list.push(stat);
+        statsByRelation.set(stat.attrelid, list);
+      });
+
+      // Return statistics in the same order as requested relation OIDs
+      return relationOids.map((oid) => statsByRelation.get(oid) || []);
+    }
+  );
+
+  return {
+    columnStatisticsByRelationLoader,
+  };
+}
@@ -0,0 +1,104 @@
+import type pg from "pg";
+import DataLoader from "dataloader";
+import type { PgSubscription } from "../types.js";
+import { PgSubscriptionSchema } from "../types.js";
+
+/**
+ * Interface for subscription query filtering options
+ */
+export interface SubscriptionQueryOptions {
+  /** Filter by subscription OIDs */
+  oids?: number[];
+}
+
+/**
+ * Database query functions for PostgreSQL logical replication subscriptions
+ */
+export const subscriptionQueries = {
+  /**
+   * Query the subscriptions of the current database
+   */
+  async query(
+    client: pg.Client | pg.PoolClient,
+    options: SubscriptionQueryOptions = {}
+  ): Promise<PgSubscription[]> {
+    const { oids } = options;
+
+    // pg_subscription is shared across databases
+    const conditions: string[] = [
+      `s.subdbid = (SELECT oid FROM pg_catalog.pg_database WHERE datname = current_database())`,
+    ];
+    const params: any[] = [];
+
+    if (oids && oids.length > 0) {
+      conditions.push(`s.oid = ANY($${params.length + 1})`);
+      params.push(oids);
+    }
+
+    // SELECT on subconninfo is revoked from ordinary roles, and referencing the
+    // column without the privilege fails the whole query, so check it up front
+    const privilege = await client.query(
+      `SELECT pg_catalog.has_column_privilege('pg_catalog.pg_subscription', 'subconninfo', 'SELECT') AS allowed`
+    );
+    const conninfo = privilege.rows[0]?.allowed ? "s.subconninfo" : "NULL::text";
+
+    const result = await client.query(
+      `
+      SELECT
+        s.oid,
+        s.subname,
+        s.subowner,
+        s.subenabled,
+        ${conninfo} AS subconninfo,
+        s.subslotname,
+        s.subpublications
+      FROM pg_catalog.pg_subscription s
+      WHERE ${conditions.join(" AND ")}
+      ORDER BY s.subname
+      `,
+      params
+    );
+
+    return result.rows.map((row) => PgSubscriptionSchema.parse(row));
+  },
+};
+
+/**
+ * Create DataLoaders for PostgreSQL subscriptions
+ * @param client - PostgreSQL database client
+ * @returns DataLoaders and utility functions for efficient subscription queries
+ */
+export function createSubscriptionLoaders(client: pg.Client | pg.PoolClient) {
+  /**
+   * DataLoader for loading subscriptions by OID
+   */
+  const subscriptionLoader = new DataLoader<number, PgSubscription | null>(async (oids) => {
+    const subscriptions = await subscriptionQueries.query(client, {
+      oids: [...new Set(oids)],
+    });
+
+    // Create a map for fast lookup by OID
+    const subscriptionMap = new Map<number, PgSubscription>();
+    subscriptions.forEach((sub) => {
+      subscriptionMap.set(sub.oid, sub);
+    });
+
+    // Return subscriptions in the same order as requested OIDs
+    return oids.map((oid) => subscriptionMap.get(oid) || null);
+  });
+
+  /**
+   * Function to get all subscriptions with optional filtering
+   */
+  const getAllSubscriptions = async (
+    filter?: (sub: PgSubscription) => boolean
+  ): Promise<PgSubscription[]> => {
+    const subscriptions = await subscriptionQueries.query(client);
+    return filter ? subscriptions.filter(filter) : subscriptions;
+  };
+
+  return {
+    subscriptionLoader,
+    getAllSubscriptions,
+  };
+}
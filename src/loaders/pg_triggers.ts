@@ -25,11 +25,22 @@ export const triggerQueries = {
     client: pg.Client | pg.PoolClient,
     options: TriggerQueryOptions
   ): Promise<PgTrigger[]> {
+    // pg_get_expr() cannot deparse tgqual because it references both OLD and NEW,
+    // so the WHEN condition is extracted from the trigger definition the same way
+    // information_schema.triggers.action_condition does
     let query = `
       SELECT
         t.oid,
         t.tgname,
-        t.tgrelid
+        t.tgrelid,
+        t.tgfoid,
+        t.tgtype,
+        t.tgenabled,
+        t.tgattr::int2[] AS tgattr,
+        CASE WHEN t.tgqual IS NOT NULL THEN
+          (regexp_match(pg_catalog.pg_get_triggerdef(t.oid), '.{35,} WHEN \\((.+)\\) EXECUTE FUNCTION'))[1]
+        END AS tgwhen,
+        pg_catalog.pg_get_triggerdef(t.oid) AS tgdef
       FROM pg_catalog.pg_trigger t
       JOIN pg_catalog.pg_class c ON t.tgrelid = c.oid
       JOIN pg_catalog.pg_namespace n ON c.relnamespace = n.oid
@@ -13,6 +13,8 @@ export interface TypeQueryOptions {
   typeNames?: string[];
   /** Filter by schema names */
   schemaNames?: string[];
+  /** Filter by schema OIDs */
+  namespaceOids?: number[];
   /** Filter by type kinds (e.g., 'b' for base, 'c' for composite, etc.) */
   typeKinds?: string[];
   /** Include all types (including system ones) */
@@ -36,9 +38,20 @@ export const typeQueries = {
         t.typelem,
         t.typrelid,
         t.typnamespace,
+        t.typowner,
+        t.typcategory,
+        t.typispreferred,
+        t.typlen,
+        t.typalign,
+        t.typarray,
+        pg_catalog.format_type(t.oid, NULL) AS formattedname,
+        t.typnotnull,
+        pg_catalog.pg_get_expr(t.typdefaultbin, 0) AS typdefault,
+        coll.collname,
         n.nspname
       FROM pg_catalog.pg_type t
       JOIN pg_catalog.pg_namespace n ON t.typnamespace = n.oid
+      LEFT JOIN pg_catalog.pg_collation coll ON coll.oid = t.typcollation
       WHERE 1=1
     `;
 
@@ -66,6 +79,13 @@ export const typeQueries = {
       paramIndex++;
     }
 
+    // Filter by schema OIDs if provided
+    if (options.namespaceOids && options.namespaceOids.length > 0) {
+      query += ` AND t.typnamespace = ANY($${paramIndex})`;
+      params.push(options.namespaceOids);
+      paramIndex++;
+    }
+
     // Filter by type kind if provided
     if (options.typeKinds && options.typeKinds.length > 0) {
       query += ` AND t.typtype = ANY($${paramIndex})`;
@@ -151,12 +171,7 @@ export function createTypeLoaders(client: Client | PoolClient) {
       // Create a map for quick lookups by schema and name
       const typeMap = new Map<string, PgType>();
       types.forEach((type) => {
-        // Get the nspname from the row data directly
-        const nspname = (type as any).nspname;
-        if (nspname) {
-          const key = `${nspname}.${type.typname}`;
-          typeMap.set(key, type);
-        }
+        typeMap.set(`${type.nspname}.${type.typname}`, type);
       });
 
       return keys.map((key) => typeMap.get(`${key.schemaName}.${key.typeName}`) || null);
@@ -167,6 +182,28 @@ export function createTypeLoaders(client: Client | PoolClient) {
     }
   );
 
+  /**
+   * DataLoader for loading all types of a schema by namespace OID
+   */
+  const typesByNamespaceLoader = new DataLoader<number, PgType[]>(async (namespaceOids) => {
+    const types = await typeQueries.query(client, {
+      namespaceOids: [...new Set(namespaceOids)],
+      all: true,
+    });
+
+    // Group types by namespace OID
+    const typesByNamespace = new Map<number, PgType[]>();
+    types.forEach((type) => {
+      const namespaceOid = type.typnamespace ?? 0;
+      const list = typesByNamespace.get(namespaceOid) || [];
+      list.push(type);
+      typesByNamespace.set(namespaceOid, list);
+    });
+
+    // Return types in the same order as requested namespace OIDs
+    return namespaceOids.map((oid) => typesByNamespace.get(oid) || []);
+  });
+
   /**
    * Function to get all types (with optional filtering)
    */
@@ -178,6 +215,7 @@ export function createTypeLoaders(client: Client | PoolClient) {
   return {
     typeLoader,
     typeByNameLoader,
+    typesByNamespaceLoader,
     getAllTypes,
   };
 }
@@ -0,0 +1,105 @@
+import type pg from "pg";
+import DataLoader from "dataloader";
+import type { PgViewDefinition } from "../types.js";
+import { PgViewDefinitionSchema } from "../types.js";
+
+/**
+ * Interface for view definition query filtering options
+ */
+export interface ViewDefinitionQueryOptions {
+  /** Filter by view or materialized view OIDs */
+  relationOids?: number[];
+  /** Include system schemas */
+  includeSystemSchemas?: boolean;
+}
+
+/**
+ * Database query functions for the definitions and options of views and materialized views
+ */
+export const viewDefinitionQueries = {
+  /**
+   * Query view definitions with various filtering options
+   */
+  async query(
+    client: pg.Client | pg.PoolClient,
+    options: ViewDefinitionQueryOptions = {}
+  ): Promise<PgViewDefinition[]> {
+    const { relationOids, includeSystemSchemas } = options;
+
+    // Build the WHERE clause based on filter options
+    const conditions: string[] = [`c.relkind IN ('v', 'm')`];
+    const params: any[] = [];
+
+    if (relationOids && relationOids.length > 0) {
+      conditions.push(`c.oid = ANY($${params.length + 1})`);
+      params.push(relationOids);
+    }
+
+    // Exclude system schemas unless specifically included
+    if (!includeSystemSchemas) {
+      conditions.push(
+        `n.nspname NOT IN ('pg_toast', 'pg_catalog', 'information_schema', 'pg_temp')`
+      );
+    }
+
+    // A view is updatable when it accepts both UPDATE and DELETE, as in
+    // information_schema.views.is_updatable: bits (1 << CMD_UPDATE) | (1 << CMD_DELETE) = 20
+    const result = await client.query(
+      `
+      SELECT
+        c.oid AS viewrelid,
+        pg_catalog.pg_get_viewdef(c.oid, true) AS viewdef,
+        o.check_option AS checkoption,
+        coalesce(o.security_barrier, false) AS securitybarrier,
+        coalesce(o.security_invoker, false) AS securityinvoker,
+        (pg_catalog.pg_relation_is_updatable(c.oid, false) & 20) = 20 AS isupdatable
+      FROM pg_catalog.pg_class c
+      JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+      LEFT JOIN LATERAL (
+        SELECT
+          max(option_value) FILTER (WHERE option_name = 'check_option') AS check_option,
+          bool_or(option_value::boolean) FILTER (WHERE option_name = 'security_barrier')
+            AS security_barrier,
+          bool_or(option_value::boolean) FILTER (WHERE option_name = 'security_invoker')
+            AS security_invoker
+        FROM pg_catalog.pg_options_to_table(c.reloptions)
+      ) o ON true
+      WHERE ${conditions.join(" AND ")}
+      ORDER BY n.nspname, c.relname
+      `,
+      params
+    );
+
+    return result.rows.map((row) => PgViewDefinitionSchema.parse(row));
+  },
+};
+
+/**
+ * Create DataLoaders for view definitions
+ * @param client - PostgreSQL database client
+ * @returns DataLoaders and utility functions for efficient view definition queries
+ */
+export function createViewDefinitionLoaders(client: pg.Client | pg.PoolClient) {
+  /**
+   * DataLoader for loading the definition of a view or materialized view by OID
+   */
+  const viewDefinitionLoader = new DataLoader<number, PgViewDefinition | null>(async (oids) => {
+    const definitions = await viewDefinitionQueries.query(client, {
+      relationOids: [...new Set(oids)],
+      includeSystemSchemas: true,
+    });
+
+    // Create a map for fast lookup by OID
+    const definitionMap = new Map<number, PgViewDefinition>();
+    definitions.forEach((def) => {
+      definitionMap.set(def.viewrelid, def);
+    });
+
+    // Return definitions in the same order as requested OIDs
+    return oids.map((oid) => definitionMap.get(oid) || null);
+  });
+
+  return {
+    viewDefinitionLoader,
+  };
+}
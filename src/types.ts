@@ -29,6 +29,14 @@ export const PgAttributeSchema = z.object({
   atttypid: z.number().int(),
   attnum: z.number().int(),
   attnotnull: z.boolean(),
+  atttypmod: z.number().int(),
+  attidentity: z.string(), // '' = not an identity column, 'a' = always, 'd' = by default
+  attgenerated: z.string(), // '' = not generated, 's' = stored, 'v' = virtual
+  attislocal: z.boolean(), // false when the column only comes from parent tables
+  attinhcount: z.number().int(), // number of direct parents the column is inherited from
+  attdefault: z.string().nullable(), // from pg_get_expr on pg_attrdef.adbin
+  attcollname: z.string().nullable(), // from pg_collation.collname
+  atttypname: z.string(), // from format_type(atttypid, atttypmod)
 });
 export type PgAttribute = z.infer<typeof PgAttributeSchema>;
 
@@ -36,6 +44,12 @@ export const PgTriggerSchema = z.object({
   oid: z.number().int(),
   tgname: z.string(),
   tgrelid: z.number().int(),
+  tgfoid: z.number().int(),
+  tgtype: z.number().int(), // bitmask of level, timing and events
+  tgenabled: z.string().length(1),
+  tgattr: z.array(z.number().int()), // columns listed in UPDATE OF
+  tgwhen: z.string().nullable(), // WHEN condition extracted from pg_get_triggerdef
+  tgdef: z.string(), // from pg_get_triggerdef
 });
 export type PgTrigger = z.infer<typeof PgTriggerSchema>;
 
@@ -58,21 +72,57 @@ export const PgTypeSchema = z.object({
   typelem: z.number().int().optional(),
   typrelid: z.number().int().optional(),
   typnamespace: z.number().int().optional(),
+  typowner: z.number().int().optional(),
+  typcategory: z.string().length(1).optional(),
+  typispreferred: z.boolean().optional(),
+  typlen: z.number().int().optional(), // -1 for varlena types, -2 for C strings
+  typalign: z.string().length(1).optional(), // 'c', 's', 'i' or 'd'
+  typarray: z.number().int().optional(), // 0 when the type has no array type
+  formattedname: z.string().optional(), // from format_type(oid, NULL)
+  nspname: z.string().optional(), // from pg_namespace.nspname
+  typnotnull: z.boolean().optional(),
+  typdefault: z.string().nullable().optional(), // from pg_get_expr on pg_type.typdefaultbin
+  collname: z.string().nullable().optional(), // from pg_collation.collname for pg_type.typcollation
 });
 export type PgType = z.infer<typeof PgTypeSchema>;
 
+export const PgEnumValueSchema = z.object({
+  oid: z.number().int(),
+  enumtypid: z.number().int(),
+  enumlabel: z.string(),
+  enumsortorder: z.number(),
+});
+export type PgEnumValue = z.infer<typeof PgEnumValueSchema>;
+
 export const PgEnumSchema = z.object({
   enumtypid: z.number().int(),
   enumlabels: z.array(z.string()), // Changed from enumlabel to enumlabels array
+  enumvalues: z.array(PgEnumValueSchema), // pg_enum rows in enumsortorder
 });
 export type PgEnum = z.infer<typeof PgEnumSchema>;
 
+export const PgIndexColumnSchema = z.object({
+  attnum: z.number().int(), // 0 for expression columns
+  expression: z.string().nullable(), // from pg_get_indexdef(indexrelid, column, true)
+  opclass: z.string().nullable(), // from pg_opclass.opcname, null for included columns
+  option: z.number().int().nullable(), // pg_index.indoption bits, null for included columns
+});
+export type PgIndexColumn = z.infer<typeof PgIndexColumnSchema>;
+
 export const PgIndexSchema = z.object({
   indexrelid: z.number().int(),
   indrelid: z.number().int(),
   indkey: z.string().optional(),
   indexdef: z.string().optional(),
   indexam: z.string(), // combined from join with pg_am
+  indisunique: z.boolean(),
+  indisprimary: z.boolean(),
+  indisexclusion: z.boolean(),
+  indisvalid: z.boolean(),
+  indnkeyatts: z.number().int(),
+  indpred: z.string().nullable(), // from pg_get_expr on pg_index.indpred
+  indcanorder: z.boolean(), // whether the access method supports ordered scans
+  indcolumns: z.array(PgIndexColumnSchema),
 });
 export type PgIndex = z.infer<typeof PgIndexSchema>;
 
@@ -82,9 +132,25 @@ export const PgRoleSchema = z.object({
   oid: z.number().int(),
   rolname: z.string(),
   rolsuper: z.boolean().optional(),
+  rolinherit: z.boolean(),
+  rolcreaterole: z.boolean(),
+  rolcreatedb: z.boolean(),
+  rolcanlogin: z.boolean(),
+  rolreplication: z.boolean(),
+  rolbypassrls: z.boolean(),
+  rolconnlimit: z.number().int(), // -1 means no limit
+  rolvaliduntil: z.string().nullable(), // ISO 8601 timestamp or 'infinity'
 });
 export type PgRole = z.infer<typeof PgRoleSchema>;
 
+export const PgAuthMemberSchema = z.object({
+  roleid: z.number().int(),
+  member: z.number().int(),
+  grantor: z.number().int(),
+  admin_option: z.boolean(),
+});
+export type PgAuthMember = z.infer<typeof PgAuthMemberSchema>;
+
 export const PgForeignKeySchema = z.object({
   oid: z.number().int(),
   conname: z.string(),
@@ -109,3 +175,382 @@ export const PgExtensionSchema = z.object({
   schemaOid: z.number().int().nullable().optional(),
 });
 export type PgExtension = z.infer<typeof PgExtensionSchema>;
+
+export const PgFunctionSchema = z.object({
+  oid: z.number().int(),
+  proname: z.string(),
+  pronamespace: z.number().int(),
+  prokind: z.string().length(1),
+  lanname: z.string(), // combined from join with pg_language
+  provolatile: z.string().length(1),
+  proisstrict: z.boolean(),
+  prosecdef: z.boolean(),
+  proretset: z.boolean(),
+  prorettype: z.number().int(),
+  pronargs: z.number().int(),
+  pronargdefaults: z.number().int(),
+  proargtypes: z.array(z.number().int()), // proallargtypes when present, else proargtypes
+  proargmodes: z.array(z.string()).nullable().optional(),
+  proargnames: z.array(z.string()).nullable().optional(),
+  proconfig: z.array(z.string()).nullable().optional(),
+  prodef: z.string().nullable().optional(), // from pg_get_functiondef
+});
+export type PgFunction = z.infer<typeof PgFunctionSchema>;
+
+export const PgConstraintSchema = z.object({
+  oid: z.number().int(),
+  conname: z.string(),
+  contype: z.string().length(1),
+  conrelid: z.number().int(),
+  conindid: z.number().int(),
+  conkey: z.array(z.number().int()).nullable(),
+  confrelid: z.number().int(),
+  confkey: z.array(z.number().int()).nullable(),
+  confupdtype: z.string(),
+  confdeltype: z.string(),
+  condeferrable: z.boolean(),
+  condeferred: z.boolean(),
+  convalidated: z.boolean(),
+  connoinherit: z.boolean(),
+  condef: z.string(), // from pg_get_constraintdef
+});
+export type PgConstraint = z.infer<typeof PgConstraintSchema>;
+
+export const PgSequenceSchema = z.object({
+  seqrelid: z.number().int(),
+  seqtypid: z.number().int(),
+  // int8 values are returned as strings by node-postgres
+  seqstart: z.string(),
+  seqincrement: z.string(),
+  seqmax: z.string(),
+  seqmin: z.string(),
+  seqcache: z.string(),
+  seqcycle: z.boolean(),
+  ownerrelid: z.number().int().nullable(), // from pg_depend.refobjid
+  ownerattnum: z.number().int().nullable(), // from pg_depend.refobjsubid
+});
+export type PgSequence = z.infer<typeof PgSequenceSchema>;
+
+export const PgPartitionedTableSchema = z.object({
+  partrelid: z.number().int(),
+  partstrat: z.string().length(1),
+  partattrs: z.array(z.number().int()), // 0 marks an expression in the partition key
+  partkeydef: z.string(), // from pg_get_partkeydef
+});
+export type PgPartitionedTable = z.infer<typeof PgPartitionedTableSchema>;
+
+export const PgPartitionSchema = z.object({
+  inhrelid: z.number().int(),
+  inhparent: z.number().int(),
+  partbound: z.string(), // from pg_get_expr on pg_class.relpartbound
+});
+export type PgPartition = z.infer<typeof PgPartitionSchema>;
+
+export const PgInheritsSchema = z.object({
+  inhrelid: z.number().int(),
+  inhparent: z.number().int(),
+  inhseqno: z.number().int(), // position of the parent in the INHERITS list, starting at 1
+});
+export type PgInherits = z.infer<typeof PgInheritsSchema>;
+
+export const PgCollationSchema = z.object({
+  oid: z.number().int(),
+  collname: z.string(),
+  collnamespace: z.number().int(),
+  collowner: z.number().int(),
+  collprovider: z.string().length(1), // 'd' = database default, 'b' = builtin, 'c' = libc, 'i' = icu
+  collisdeterministic: z.boolean(),
+  collencodingname: z.string().nullable(), // from pg_encoding_to_char, null when usable with any encoding
+  collcollate: z.string().nullable(),
+  collctype: z.string().nullable(),
+  colllocale: z.string().nullable(),
+  collicurules: z.string().nullable(),
+  collversion: z.string().nullable(),
+});
+export type PgCollation = z.infer<typeof PgCollationSchema>;
+
+export const PgCastSchema = z.object({
+  oid: z.number().int(),
+  castsource: z.number().int(),
+  casttarget: z.number().int(),
+  castfunc: z.number().int(), // 0 when no function is called
+  castcontext: z.string().length(1), // 'e' = explicit, 'a' = assignment, 'i' = implicit
+  castmethod: z.string().length(1), // 'f' = function, 'i' = input/output, 'b' = binary coercible
+  castisbuiltin: z.boolean(), // OID below FirstNormalObjectId, i.e. created by initdb
+});
+export type PgCast = z.infer<typeof PgCastSchema>;
+
+export const PgOperatorSchema = z.object({
+  oid: z.number().int(),
+  oprname: z.string(),
+  oprnamespace: z.number().int(),
+  oprowner: z.number().int(),
+  oprkind: z.string().length(1), // 'b' = infix, 'l' = prefix
+  oprcanmerge: z.boolean(),
+  oprcanhash: z.boolean(),
+  // Referenced OIDs are 0 when unset
+  oprleft: z.number().int(),
+  oprright: z.number().int(),
+  oprresult: z.number().int(),
+  oprcom: z.number().int(),
+  oprnegate: z.number().int(),
+  oprcode: z.number().int(),
+  oprrest: z.number().int(),
+  oprjoin: z.number().int(),
+});
+export type PgOperator = z.infer<typeof PgOperatorSchema>;
+
+export const PgAggregateSchema = z.object({
+  aggfnoid: z.number().int(),
+  aggname: z.string(), // from pg_proc.proname
+  aggnamespace: z.number().int(), // from pg_proc.pronamespace
+  aggowner: z.number().int(), // from pg_proc.proowner
+  aggkind: z.string().length(1), // 'n' = normal, 'o' = ordered-set, 'h' = hypothetical-set
+  aggnumdirectargs: z.number().int(),
+  // Support function OIDs are 0 when unset
+  aggtransfn: z.number().int(),
+  aggfinalfn: z.number().int(),
+  aggcombinefn: z.number().int(),
+  aggserialfn: z.number().int(),
+  aggdeserialfn: z.number().int(),
+  aggsortop: z.number().int(),
+  aggtranstype: z.number().int(),
+  agginitval: z.string().nullable(),
+});
+export type PgAggregate = z.infer<typeof PgAggregateSchema>;
+
+export const PgDescriptionSchema = z.object({
+  classoid: z.number().int(),
+  objoid: z.number().int(),
+  objsubid: z.number().int(),
+  description: z.string(),
+});
+export type PgDescription = z.infer<typeof PgDescriptionSchema>;
+
+export const PgForeignDataWrapperSchema = z.object({
+  oid: z.number().int(),
+  fdwname: z.string(),
+  fdwowner: z.number().int(),
+  fdwhandler: z.number().int(), // 0 when the wrapper has no handler
+  fdwvalidator: z.number().int(), // 0 when the wrapper has no validator
+  fdwoptions: z.array(z.string()).nullable(), // "key=value" entries
+});
+export type PgForeignDataWrapper = z.infer<typeof PgForeignDataWrapperSchema>;
+
+export const PgForeignServerSchema = z.object({
+  oid: z.number().int(),
+  srvname: z.string(),
+  srvowner: z.number().int(),
+  srvfdw: z.number().int(),
+  srvtype: z.string().nullable(),
+  srvversion: z.string().nullable(),
+  srvoptions: z.array(z.string()).nullable(), // "key=value" entries
+});
+export type PgForeignServer = z.infer<typeof PgForeignServerSchema>;
+
+export const PgForeignTableSchema = z.object({
+  ftrelid: z.number().int(),
+  ftserver: z.number().int(),
+  ftoptions: z.array(z.string()).nullable(), // "key=value" entries
+});
+export type PgForeignTable = z.infer<typeof PgForeignTableSchema>;
+
+export const PgExtensionMemberSchema = z.object({
+  classid: z.number().int(), // catalog containing the member object
+  objid: z.number().int(),
+  extoid: z.number().int(), // from pg_depend.refobjid
+});
+export type PgExtensionMember = z.infer<typeof PgExtensionMemberSchema>;
+
+export const PgPublicationSchema = z.object({
+  oid: z.number().int(),
+  pubname: z.string(),
+  pubowner: z.number().int(),
+  puballtables: z.boolean(),
+  pubinsert: z.boolean(),
+  pubupdate: z.boolean(),
+  pubdelete: z.boolean(),
+  pubtruncate: z.boolean(),
+  pubviaroot: z.boolean(),
+  pubschemas: z.array(z.number().int()), // from pg_publication_namespace.pnnspid
+});
+export type PgPublication = z.infer<typeof PgPublicationSchema>;
+
+export const PgPublicationRelSchema = z.object({
+  oid: z.number().int(),
+  prpubid: z.number().int(),
+  prrelid: z.number().int(),
+  prqual: z.string().nullable(), // from pg_get_expr on pg_publication_rel.prqual
+  prattrs: z.array(z.number().int()).nullable(), // null when all columns are published
+});
+export type PgPublicationRel = z.infer<typeof PgPublicationRelSchema>;
+
+export const PgSubscriptionSchema = z.object({
+  oid: z.number().int(),
+  subname: z.string(),
+  subowner: z.number().int(),
+  subenabled: z.boolean(),
+  subconninfo: z.string().nullable(), // null when the current role cannot read it
+  subslotname: z.string().nullable(),
+  subpublications: z.array(z.string()),
+});
+export type PgSubscription = z.infer<typeof PgSubscriptionSchema>;
+
+export const PgEventTriggerSchema = z.object({
+  oid: z.number().int(),
+  evtname: z.string(),
+  evtevent: z.string(),
+  evtowner: z.number().int(),
+  evtfoid: z.number().int(),
+  evtenabled: z.string().length(1), // same codes as pg_trigger.tgenabled
+  evttags: z.array(z.string()).nullable(), // null when the trigger fires for every command tag
+});
+export type PgEventTrigger = z.infer<typeof PgEventTriggerSchema>;
+
+export const PgViewDefinitionSchema = z.object({
+  viewrelid: z.number().int(),
+  viewdef: z.string().nullable(), // from pg_get_viewdef
+  checkoption: z.string().nullable(), // 'local' or 'cascaded' from reloptions
+  securitybarrier: z.boolean(), // from reloptions
+  securityinvoker: z.boolean(), // from reloptions
+  isupdatable: z.boolean(), // from pg_relation_is_updatable
+});
+export type PgViewDefinition = z.infer<typeof PgViewDefinitionSchema>;
+
+export const PgRuleSchema = z.object({
+  oid: z.number().int(),
+  rulename: z.string(),
+  ev_class: z.number().int(),
+  ev_type: z.string().length(1), // '1' = SELECT, '2' = UPDATE, '3' = INSERT, '4' = DELETE
+  ev_enabled: z.string().length(1), // same codes as pg_trigger.tgenabled
+  is_instead: z.boolean(),
+  ruledef: z.string(), // from pg_get_ruledef
+});
+export type PgRule = z.infer<typeof PgRuleSchema>;
+
+export const PgDependSchema = z.object({
+  // The dependent object; view rules and column defaults are reported as their view or column
+  classid: z.number().int(),
+  objid: z.number().int(),
+  objsubid: z.number().int(),
+  // The referenced object
+  refclassid: z.number().int(),
+  refobjid: z.number().int(),
+  refobjsubid: z.number().int(),
+  deptype: z.string().length(1),
+});
+export type PgDepend = z.infer<typeof PgDependSchema>;
+
+export const PgRangeSchema = z.object({
+  rngtypid: z.number().int(),
+  rngsubtype: z.number().int(),
+  rngmultitypid: z.number().int(), // 0 before PostgreSQL 14
+  rngcollation: z.number().int(), // 0 when the subtype is not collatable
+  collname: z.string().nullable(), // from pg_collation.collname
+  rngcanonical: z.number().int(), // pg_proc OID, 0 for none
+  rngsubdiff: z.number().int(), // pg_proc OID, 0 for none
+});
+export type PgRange = z.infer<typeof PgRangeSchema>;
+
+export const PgDomainConstraintSchema = z.object({
+  oid: z.number().int(),
+  conname: z.string(),
+  contypid: z.number().int(),
+  contype: z.string().length(1), // 'c' = check, 'n' = not null (PostgreSQL 17+)
+  convalidated: z.boolean(),
+  condef: z.string(), // from pg_get_constraintdef
+});
+export type PgDomainConstraint = z.infer<typeof PgDomainConstraintSchema>;
+
+export const PgEnumUsageSchema = z.object({
+  enumtypid: z.number().int(),
+  attrelid: z.number().int(),
+  attnum: z.number().int(),
+  relkind: z.string().length(1), // 'c' for the fields of standalone composite types
+  reltype: z.number().int(), // pg_class.reltype, the composite type of the relation
+});
+export type PgEnumUsage = z.infer<typeof PgEnumUsageSchema>;
+
+export const PgRelationStorageSchema = z.object({
+  relid: z.number().int(),
+  relpersistence: z.string().length(1), // 'p' = permanent, 'u' = unlogged, 't' = temporary
+  reloptions: z.array(z.string()).nullable(),
+  spcname: z.string().nullable(), // null for the database default tablespace
+  reltuples: z.number(), // -1 when the relation has never been vacuumed or analyzed
+  // int8 values are returned as strings by node-postgres
+  totalsize: z.string(), // from pg_total_relation_size
+  tablesize: z.string(), // from pg_table_size
+  indexsize: z.string(), // from pg_indexes_size
+});
+export type PgRelationStorage = z.infer<typeof PgRelationStorageSchema>;
+
+export const PgStatUserTableSchema = z.object({
+  relid: z.number().int(),
+  // int8 counters are returned as strings by node-postgres
+  seq_scan: z.string(),
+  seq_tup_read: z.string(),
+  idx_scan: z.string().nullable(), // null when the table has no indexes
+  idx_tup_fetch: z.string().nullable(),
+  n_tup_ins: z.string(),
+  n_tup_upd: z.string(),
+  n_tup_del: z.string(),
+  n_tup_hot_upd: z.string(),
+  n_live_tup: z.string(),
+  n_dead_tup: z.string(),
+  n_mod_since_analyze: z.string(),
+  // ISO 8601 timestamps, null when it never happened
+  last_vacuum: z.string().nullable(),
+  last_autovacuum: z.string().nullable(),
+  last_analyze: z.string().nullable(),
+  last_autoanalyze: z.string().nullable(),
+  vacuum_count: z.string(),
+  autovacuum_count: z.string(),
+  analyze_count: z.string(),
+  autoanalyze_count: z.string(),
+});
+export type PgStatUserTable = z.infer<typeof PgStatUserTableSchema>;
+
+export const PgStatUserIndexSchema = z.object({
+  indexrelid: z.number().int(),
+  // int8 counters are returned as strings by node-postgres
+  idx_scan: z.string(),
+  idx_tup_read: z.string(),
+  idx_tup_fetch: z.string(),
+});
+export type PgStatUserIndex = z.infer<typeof PgStatUserIndexSchema>;
+
+export const PgStatUserFunctionSchema = z.object({
+  funcid: z.number().int(),
+  calls: z.string(), // int8 returned as a string by node-postgres
+  total_time: z.number(), // milliseconds, including time spent in called functions
+  self_time: z.number(), // milliseconds, excluding time spent in called functions
+});
+export type PgStatUserFunction = z.infer<typeof PgStatUserFunctionSchema>;
+
+export const PgColumnStatisticsSchema = z.object({
+  attrelid: z.number().int(),
+  attnum: z.number().int(),
+  null_frac: z.number(),
+  avg_width: z.number().int(),
+  n_distinct: z.number(), // negative values are the negated fraction of rows
+  correlation: z.number().nullable(),
+  // Sample values as text, null without SELECT privilege on the column
+  most_common_vals: z.array(z.string()).nullable(),
+  most_common_freqs: z.array(z.number()).nullable(),
+  histogram_bounds: z.array(z.string()).nullable(),
+});
+export type PgColumnStatistics = z.infer<typeof PgColumnStatisticsSchema>;
+
+export const PgStatisticExtSchema = z.object({
+  oid: z.number().int(),
+  stxname: z.string(),
+  stxrelid: z.number().int(),
+  stxnamespace: z.number().int(),
+  stxowner: z.number().int(),
+  stxkind: z.array(z.string().length(1)), // 'd' = ndistinct, 'f' = dependencies, 'm' = mcv, 'e' = expressions
+  stxkeys: z.array(z.number().int()), // attnums of the target columns
+  stxexprs: z.array(z.string()), // from pg_get_statisticsobjdef_expressions
+  stxstattarget: z.number().int().nullable(), // null or -1 for the system default
+  stxdef: z.string(), // from pg_get_statisticsobjdef
+});
+export type PgStatisticExt = z.infer<typeof PgStatisticExtSchema>;
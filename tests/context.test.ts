@@ -14,6 +14,18 @@ describe("context", () => {
     await releaseClient(ctx.client);
   });
 
+  it("should carry server options, defaulting to none", async () => {
+    const mockClient = { query: jest.fn(), release: jest.fn() } as any;
+
+    const defaults = await context(dbConfig, mockClient);
+    const exposed = await context(dbConfig, mockClient, undefined, {
+      exposeColumnStatisticsValues: true,
+    });
+
+    expect(defaults.options).toEqual({});
+    expect(exposed.options.exposeColumnStatisticsValues).toBe(true);
+  });
+
   it("should batch type lookups with DataLoader", async () => {
     const mockClient = {
       query: jest.fn().mockResolvedValue({
@@ -47,21 +59,30 @@ describe("context", () => {
   });
 
   it("should batch trigger lookups with DataLoader", async () => {
+    const triggerDefaults = {
+      tgrelid: 1000,
+      tgfoid: 2000,
+      tgtype: 5,
+      tgenabled: "O",
+      tgattr: [],
+      tgwhen: null,
+      tgdef: "CREATE TRIGGER ...",
+    };
     const mockClient = {
       query: jest
         .fn()
         // First call is for triggerLoader (by OID)
         .mockResolvedValueOnce({
           rows: [
-            { oid: 101, tgname: "trigger1", tgrelid: 1000 },
-            { oid: 102, tgname: "trigger2", tgrelid: 1000 },
+            { ...triggerDefaults, oid: 101, tgname: "trigger1" },
+            { ...triggerDefaults, oid: 102, tgname: "trigger2" },
           ],
         })
         // Second call is for triggersByRelationLoader (by tgrelid)
         .mockResolvedValueOnce({
           rows: [
-            { oid: 101, tgname: "trigger1", tgrelid: 1000 },
-            { oid: 102, tgname: "trigger2", tgrelid: 1000 },
+            { ...triggerDefaults, oid: 101, tgname: "trigger1" },
+            { ...triggerDefaults, oid: 102, tgname: "trigger2" },
           ],
         }),
       release: jest.fn(),
@@ -0,0 +1,114 @@
+import { Client } from "pg";
+import { aggregateQueries, createAggregateLoaders } from "../../src/loaders/pg_aggregates.js";
+import type { PgAggregate } from "../../src/types.js";
+
+// Mock the pg Client
+jest.mock("pg", () => {
+  const mockQuery = jest.fn();
+  return {
+    Client: jest.fn().mockImplementation(() => ({
+      query: mockQuery,
+      connect: jest.fn(),
+      end: jest.fn(),
+    })),
+  };
+});
+
+describe("pg_aggregates loader", () => {
+  let client: Client;
+  let mockQuery: jest.Mock;
+
+  // Mock aggregates to use in tests
+  const mockSum: PgAggregate = {
+    aggfnoid: 17401,
+    aggname: "vec2_sum",
+    aggnamespace: 16384,
+    aggowner: 10,
+    aggkind: "n",
+    aggnumdirectargs: 0,
+    aggtransfn: 17300,
+    aggfinalfn: 0,
+    aggcombinefn: 17300,
+    aggserialfn: 0,
+    aggdeserialfn: 0,
+    aggsortop: 0,
+    aggtranstype: 17200,
+    agginitval: "(0,0)",
+  };
+
+  const mockPercentile: PgAggregate = {
+    ...mockSum,
+    aggfnoid: 17402,
+    aggname: "my_percentile",
+    aggnamespace: 16385,
+    aggkind: "o",
+    aggnumdirectargs: 1,
+    aggcombinefn: 0,
+    agginitval: null,
+  };
+
+  beforeEach(() => {
+    client = new Client();
+    mockQuery = client.query as jest.Mock;
+    mockQuery.mockReset();
+  });
+
+  describe("aggregateQueries", () => {
+    it("excludes pg_catalog and other system schemas by default", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockSum] });
+
+      const result = await aggregateQueries.query(client);
+
+      expect(result).toEqual([mockSum]);
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("FROM pg_catalog.pg_aggregate a");
+      expect(query).toContain("n.nspname NOT IN ('pg_toast', 'pg_catalog'");
+      expect(mockQuery.mock.calls[0][1]).toEqual([]);
+    });
+
+    it("filters by OIDs and namespace OIDs", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await aggregateQueries.query(client, {
+        oids: [17401],
+        namespaceOids: [16384],
+        includeSystemSchemas: true,
+      });
+
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("a.aggfnoid = ANY($1)");
+      expect(query).toContain("p.pronamespace = ANY($2)");
+      expect(query).not.toContain("n.nspname NOT IN");
+      expect(mockQuery.mock.calls[0][1]).toEqual([[17401], [16384]]);
+    });
+  });
+
+  describe("createAggregateLoaders", () => {
+    it("loads aggregates by OID in request order", async () => {
+      const loaders = createAggregateLoaders(client);
+      mockQuery.mockResolvedValueOnce({ rows: [mockSum, mockPercentile] });
+
+      const result = await loaders.aggregateLoader.loadMany([17402, 1, 17401]);
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(result).toEqual([mockPercentile, null, mockSum]);
+    });
+
+    it("groups aggregates by namespace OID", async () => {
+      const loaders = createAggregateLoaders(client);
+      mockQuery.mockResolvedValueOnce({ rows: [mockSum, mockPercentile] });
+
+      const [first, second, none] = await Promise.all([
+        loaders.aggregatesByNamespaceLoader.load(16384),
+        loaders.aggregatesByNamespaceLoader.load(16385),
+        loaders.aggregatesByNamespaceLoader.load(2200),
+      ]);
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(mockQuery.mock.calls[0][1]).toEqual([[16384, 16385, 2200]]);
+      expect(first).toEqual([mockSum]);
+      expect(second).toEqual([mockPercentile]);
+      expect(none).toEqual([]);
+    });
+  });
+});
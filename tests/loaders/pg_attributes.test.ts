@@ -39,6 +39,14 @@ describe("pg_attributes loader", () => {
     atttypid: 23, // int4
     attnum: 1,
     attnotnull: true,
+    atttypmod: -1,
+    attidentity: "a",
+    attgenerated: "",
+    attislocal: true,
+    attinhcount: 0,
+    attdefault: null,
+    attcollname: null,
+    atttypname: "integer",
   };
 
   const mockAttribute2: PgAttribute = {
@@ -47,6 +55,14 @@ describe("pg_attributes loader", () => {
     atttypid: 25, // text
     attnum: 2,
     attnotnull: false,
+    atttypmod: -1,
+    attidentity: "",
+    attgenerated: "",
+    attislocal: true,
+    attinhcount: 0,
+    attdefault: "'anonymous'::text",
+    attcollname: "default",
+    atttypname: "text",
   };
 
   const mockAttribute3: PgAttribute = {
@@ -55,6 +71,14 @@ describe("pg_attributes loader", () => {
     atttypid: 25, // text
     attnum: 1,
     attnotnull: false,
+    atttypmod: -1,
+    attidentity: "",
+    attgenerated: "s",
+    attislocal: true,
+    attinhcount: 0,
+    attdefault: "upper(name)",
+    attcollname: "C",
+    atttypname: "text",
   };
 
   beforeEach(() => {
@@ -144,6 +168,18 @@ describe("pg_attributes loader", () => {
       expect(mockQuery).toHaveBeenCalledTimes(1);
       expect(mockQuery.mock.calls[0][0]).not.toContain("n.nspname NOT IN");
     });
+
+    it("should load defaults, collations and formatted types", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await attributeQueries.query(client);
+
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("pg_catalog.pg_get_expr(d.adbin, d.adrelid) AS attdefault");
+      expect(query).toContain("LEFT JOIN pg_catalog.pg_attrdef d");
+      expect(query).toContain("LEFT JOIN pg_catalog.pg_collation co");
+      expect(query).toContain("pg_catalog.format_type(a.atttypid, a.atttypmod) AS atttypname");
+    });
   });
 
   describe("attributeQueries.queryByTableName", () => {
@@ -0,0 +1,132 @@
+import { Client } from "pg";
+import { createAuthMemberLoaders, authMemberQueries } from "../../src/loaders/pg_auth_members.js";
+import type { PgAuthMember } from "../../src/types.js";
+
+// Mock the pg Client
+jest.mock("pg", () => {
+  const mockQuery = jest.fn();
+  return {
+    Client: jest.fn().mockImplementation(() => ({
+      query: mockQuery,
+      connect: jest.fn(),
+      end: jest.fn(),
+    })),
+  };
+});
+
+describe("pg_auth_members loader", () => {
+  let client: Client;
+  let mockQuery: jest.Mock;
+
+  // Mock membership objects to use in tests
+  const mockReaderGrant: PgAuthMember = {
+    roleid: 2001,
+    member: 3001,
+    grantor: 10,
+    admin_option: false,
+  };
+
+  const mockWriterGrant: PgAuthMember = {
+    roleid: 2002,
+    member: 3001,
+    grantor: 10,
+    admin_option: true,
+  };
+
+  const mockOtherReaderGrant: PgAuthMember = {
+    roleid: 2001,
+    member: 3002,
+    grantor: 3001,
+    admin_option: false,
+  };
+
+  beforeEach(() => {
+    client = new Client();
+    mockQuery = client.query as jest.Mock;
+    mockQuery.mockReset();
+  });
+
+  describe("authMemberQueries", () => {
+    describe("query", () => {
+      it("queries all memberships without filters", async () => {
+        mockQuery.mockResolvedValueOnce({
+          rows: [mockReaderGrant, mockOtherReaderGrant, mockWriterGrant],
+        });
+
+        const result = await authMemberQueries.query(client);
+
+        expect(result).toEqual([mockReaderGrant, mockOtherReaderGrant, mockWriterGrant]);
+
+        const query = mockQuery.mock.calls[0][0];
+        expect(query).toContain("FROM pg_catalog.pg_auth_members m");
+        expect(query).not.toContain("WHERE");
+        expect(mockQuery.mock.calls[0][1]).toEqual([]);
+      });
+
+      it("combines role and member filters", async () => {
+        mockQuery.mockResolvedValueOnce({
+          rows: [mockReaderGrant],
+        });
+
+        await authMemberQueries.query(client, { roleOids: [2001], memberOids: [3001] });
+
+        const query = mockQuery.mock.calls[0][0];
+        expect(query).toContain("m.roleid = ANY($1)");
+        expect(query).toContain("m.member = ANY($2)");
+        expect(mockQuery.mock.calls[0][1]).toEqual([[2001], [3001]]);
+      });
+    });
+  });
+
+  describe("createAuthMemberLoaders", () => {
+    let loaders: ReturnType<typeof createAuthMemberLoaders>;
+
+    beforeEach(() => {
+      loaders = createAuthMemberLoaders(client);
+    });
+
+    it("batches membership lookups by member OID", async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [mockReaderGrant, mockOtherReaderGrant, mockWriterGrant],
+      });
+
+      const [first, second, none] = await Promise.all([
+        loaders.membershipsByMemberLoader.load(3001),
+        loaders.membershipsByMemberLoader.load(3002),
+        loaders.membershipsByMemberLoader.load(3003),
+      ]);
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(mockQuery.mock.calls[0][1]).toEqual([[3001, 3002, 3003]]);
+      expect(first).toEqual([mockReaderGrant, mockWriterGrant]);
+      expect(second).toEqual([mockOtherReaderGrant]);
+      expect(none).toEqual([]);
+    });
+
+    it("batches membership lookups by granted role OID", async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [mockReaderGrant, mockOtherReaderGrant, mockWriterGrant],
+      });
+
+      const [readers, writers] = await Promise.all([
+        loaders.membershipsByRoleLoader.load(2001),
+        loaders.membershipsByRoleLoader.load(2002),
+      ]);
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(mockQuery.mock.calls[0][1]).toEqual([[2001, 2002]]);
+      expect(readers).toEqual([mockReaderGrant, mockOtherReaderGrant]);
+      expect(writers).toEqual([mockWriterGrant]);
+    });
+
+    it("filters all memberships with the provided function", async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [mockReaderGrant, mockOtherReaderGrant, mockWriterGrant],
+      });
+
+      const result = await loaders.getAllAuthMembers((m) => m.admin_option);
+
+      expect(result).toEqual([mockWriterGrant]);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { Client } from "pg";
+import { castQueries, createCastLoaders } from "../../src/loaders/pg_casts.js";
+import type { PgCast } from "../../src/types.js";
+
+// Mock the pg Client
+jest.mock("pg", () => {
+  const mockQuery = jest.fn();
+  return {
+    Client: jest.fn().mockImplementation(() => ({
+      query: mockQuery,
+      connect: jest.fn(),
+      end: jest.fn(),
+    })),
+  };
+});
+
+describe("pg_casts loader", () => {
+  let client: Client;
+  let mockQuery: jest.Mock;
+
+  // Mock casts to use in tests
+  const mockBuiltIn: PgCast = {
+    oid: 10035,
+    castsource: 23,
+    casttarget: 20,
+    castfunc: 481,
+    castcontext: "i",
+    castmethod: "f",
+    castisbuiltin: true,
+  };
+
+  const mockUserCast: PgCast = {
+    oid: 17501,
+    castsource: 25,
+    casttarget: 17200,
+    castfunc: 0,
+    castcontext: "e",
+    castmethod: "i",
+    castisbuiltin: false,
+  };
+
+  beforeEach(() => {
+    client = new Client();
+    mockQuery = client.query as jest.Mock;
+    mockQuery.mockReset();
+  });
+
+  describe("castQueries", () => {
+    it("excludes casts created by initdb by default", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockUserCast] });
+
+      const result = await castQueries.query(client);
+
+      expect(result).toEqual([mockUserCast]);
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("FROM pg_catalog.pg_cast c");
+      expect(query).toContain("WHERE c.oid >= 16384");
+      expect(mockQuery.mock.calls[0][1]).toEqual([]);
+    });
+
+    it("filters by OIDs including built-in casts", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await castQueries.query(client, { oids: [10035], includeBuiltIn: true });
+
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("c.oid = ANY($1)");
+      expect(query).not.toContain("c.oid >= 16384");
+      expect(mockQuery.mock.calls[0][1]).toEqual([[10035]]);
+    });
+  });
+
+  describe("createCastLoaders", () => {
+    it("loads casts by OID in request order", async () => {
+      const loaders = createCastLoaders(client);
+      mockQuery.mockResolvedValueOnce({ rows: [mockBuiltIn, mockUserCast] });
+
+      const result = await loaders.castLoader.loadMany([17501, 1, 10035]);
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(mockQuery.mock.calls[0][0]).not.toContain("c.oid >= 16384");
+      expect(result).toEqual([mockUserCast, null, mockBuiltIn]);
+    });
+
+    it("returns built-in casts from getAllCasts for filtering by the caller", async () => {
+      const loaders = createCastLoaders(client);
+      mockQuery.mockResolvedValueOnce({ rows: [mockBuiltIn, mockUserCast] });
+
+      const result = await loaders.getAllCasts((cast) => !cast.castisbuiltin);
+
+      expect(mockQuery.mock.calls[0][0]).not.toContain("c.oid >= 16384");
+      expect(result).toEqual([mockUserCast]);
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { Client } from "pg";
+import { collationQueries, createCollationLoaders } from "../../src/loaders/pg_collations.js";
+import type { PgCollation } from "../../src/types.js";
+
+// Mock the pg Client
+jest.mock("pg", () => {
+  const mockQuery = jest.fn();
+  return {
+    Client: jest.fn().mockImplementation(() => ({
+      query: mockQuery,
+      connect: jest.fn(),
+      end: jest.fn(),
+    })),
+  };
+});
+
+describe("pg_collations loader", () => {
+  let client: Client;
+  let mockQuery: jest.Mock;
+
+  // Mock collations to use in tests
+  const mockLibc: PgCollation = {
+    oid: 17001,
+    collname: "c_copy",
+    collnamespace: 16384,
+    collowner: 10,
+    collprovider: "c",
+    collisdeterministic: true,
+    collencodingname: "UTF8",
+    collcollate: "C",
+    collctype: "C",
+    colllocale: null,
+    collicurules: null,
+    collversion: null,
+  };
+
+  const mockIcu: PgCollation = {
+    oid: 17002,
+    collname: "case_insensitive",
+    collnamespace: 16385,
+    collowner: 10,
+    collprovider: "i",
+    collisdeterministic: false,
+    collencodingname: null,
+    collcollate: null,
+    collctype: null,
+    colllocale: "und-u-ks-level2",
+    collicurules: null,
+    collversion: "153.120",
+  };
+
+  // Answer the server version lookup that precedes the first collation query
+  const mockServerVersion = (version: number) =>
+    mockQuery.mockResolvedValueOnce({ rows: [{ server_version_num: version }] });
+
+  beforeEach(() => {
+    client = new Client();
+    mockQuery = client.query as jest.Mock;
+    mockQuery.mockReset();
+  });
+
+  describe("collationQueries", () => {
+    it("excludes pg_catalog and other system schemas by default", async () => {
+      mockServerVersion(170000);
+      mockQuery.mockResolvedValueOnce({ rows: [mockLibc] });
+
+      const result = await collationQueries.query(client);
+
+      expect(result).toEqual([mockLibc]);
+      const query = mockQuery.mock.calls[1][0];
+      expect(query).toContain("FROM pg_catalog.pg_collation co");
+      expect(query).toContain("n.nspname NOT IN ('pg_toast', 'pg_catalog'");
+      expect(mockQuery.mock.calls[1][1]).toEqual([]);
+    });
+
+    it("filters by OIDs and namespace OIDs", async () => {
+      mockServerVersion(170000);
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await collationQueries.query(client, {
+        oids: [17001],
+        namespaceOids: [16384],
+        includeSystemSchemas: true,
+      });
+
+      const query = mockQuery.mock.calls[1][0];
+      expect(query).toContain("co.oid = ANY($1)");
+      expect(query).toContain("co.collnamespace = ANY($2)");
+      expect(query).not.toContain("n.nspname NOT IN");
+      expect(mockQuery.mock.calls[1][1]).toEqual([[17001], [16384]]);
+    });
+
+    it("reads the locale and ICU rules columns of PostgreSQL 17", async () => {
+      mockServerVersion(170002);
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await collationQueries.query(client);
+
+      const query = mockQuery.mock.calls[1][0];
+      expect(query).toContain("co.colllocale AS colllocale");
+      expect(query).toContain("co.collicurules AS collicurules");
+    });
+
+    it("falls back to colliculocale on PostgreSQL 15 without ICU rules", async () => {
+      mockServerVersion(150006);
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await collationQueries.query(client);
+
+      const query = mockQuery.mock.calls[1][0];
+      expect(query).toContain("co.colliculocale AS colllocale");
+      expect(query).toContain("NULL::text AS collicurules");
+      expect(query).not.toContain("co.colllocale");
+    });
+
+    it("looks up the server version once per client", async () => {
+      mockServerVersion(160004);
+      mockQuery.mockResolvedValue({ rows: [] });
+
+      await collationQueries.query(client);
+      await collationQueries.query(client);
+
+      expect(mockQuery).toHaveBeenCalledTimes(3);
+      expect(mockQuery.mock.calls[0][0]).toContain("server_version_num");
+      expect(mockQuery.mock.calls[2][0]).toContain("co.colliculocale AS colllocale");
+      expect(mockQuery.mock.calls[2][0]).toContain("co.collicurules AS collicurules");
+    });
+  });
+
+  describe("createCollationLoaders", () => {
+    it("loads collations by OID in request order", async () => {
+      const loaders = createCollationLoaders(client);
+      mockServerVersion(170000);
+      mockQuery.mockResolvedValueOnce({ rows: [mockLibc, mockIcu] });
+
+      const result = await loaders.collationLoader.loadMany([17002, 1, 17001]);
+
+      expect(mockQuery).toHaveBeenCalledTimes(2);
+      expect(result).toEqual([mockIcu, null, mockLibc]);
+    });
+
+    it("groups collations by namespace OID", async () => {
+      const loaders = createCollationLoaders(client);
+      mockServerVersion(170000);
+      mockQuery.mockResolvedValueOnce({ rows: [mockLibc, mockIcu] });
+
+      const [first, second, none] = await Promise.all([
+        loaders.collationsByNamespaceLoader.load(16384),
+        loaders.collationsByNamespaceLoader.load(16385),
+        loaders.collationsByNamespaceLoader.load(2200),
+      ]);
+
+      expect(mockQuery).toHaveBeenCalledTimes(2);
+      expect(mockQuery.mock.calls[1][1]).toEqual([[16384, 16385, 2200]]);
+      expect(first).toEqual([mockLibc]);
+      expect(second).toEqual([mockIcu]);
+      expect(none).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,209 @@
+import { Client } from "pg";
+import {
+  createConstraintLoaders,
+  constraintQueries,
+  TABLE_CONSTRAINT_TYPES,
+} from "../../src/loaders/pg_constraints.js";
+import type { PgConstraint } from "../../src/types.js";
+
+// Mock the pg Client
+jest.mock("pg", () => {
+  const mockQuery = jest.fn();
+  return {
+    Client: jest.fn().mockImplementation(() => ({
+      query: mockQuery,
+      connect: jest.fn(),
+      end: jest.fn(),
+    })),
+  };
+});
+
+describe("pg_constraints loader", () => {
+  let client: Client;
+  let mockQuery: jest.Mock;
+
+  // Mock constraint objects to use in tests
+  const mockPrimaryKey: PgConstraint = {
+    oid: 6001,
+    conname: "users_pkey",
+    contype: "p",
+    conrelid: 16384,
+    conindid: 16390,
+    conkey: [1],
+    confrelid: 0,
+    confkey: null,
+    confupdtype: " ",
+    confdeltype: " ",
+    condeferrable: false,
+    condeferred: false,
+    convalidated: true,
+    connoinherit: true,
+    condef: "PRIMARY KEY (id)",
+  };
+
+  const mockCheck: PgConstraint = {
+    oid: 6002,
+    conname: "users_age_check",
+    contype: "c",
+    conrelid: 16384,
+    conindid: 0,
+    conkey: [3],
+    confrelid: 0,
+    confkey: null,
+    confupdtype: " ",
+    confdeltype: " ",
+    condeferrable: false,
+    condeferred: false,
+    convalidated: true,
+    connoinherit: false,
+    condef: "CHECK ((age >= 0))",
+  };
+
+  const mockUnique: PgConstraint = {
+    oid: 6003,
+    conname: "orders_code_key",
+    contype: "u",
+    conrelid: 16400,
+    conindid: 16410,
+    conkey: [2],
+    confrelid: 0,
+    confkey: null,
+    confupdtype: " ",
+    confdeltype: " ",
+    condeferrable: true,
+    condeferred: true,
+    convalidated: true,
+    connoinherit: true,
+    condef: "UNIQUE (code) DEFERRABLE INITIALLY DEFERRED",
+  };
+
+  beforeEach(() => {
+    client = new Client();
+    mockQuery = client.query as jest.Mock;
+    mockQuery.mockReset();
+  });
+
+  describe("constraintQueries", () => {
+    describe("query", () => {
+      it("restricts to table constraint types and excludes system schemas by default", async () => {
+        mockQuery.mockResolvedValueOnce({
+          rows: [mockPrimaryKey, mockCheck, mockUnique],
+        });
+
+        const result = await constraintQueries.query(client);
+
+        expect(result).toHaveLength(3);
+        expect(result[0]).toEqual(mockPrimaryKey);
+
+        const query = mockQuery.mock.calls[0][0];
+        expect(query).toContain("c.conrelid <> 0");
+        expect(query).toContain("c.contype = ANY($1)");
+        expect(query).toContain("pg_get_constraintdef(c.oid)");
+        expect(query).toContain(
+          "n.nspname NOT IN ('pg_toast', 'pg_catalog', 'information_schema', 'pg_temp')"
+        );
+        expect(mockQuery.mock.calls[0][1]).toEqual([TABLE_CONSTRAINT_TYPES]);
+      });
+
+      it("combines multiple filter conditions", async () => {
+        mockQuery.mockResolvedValueOnce({
+          rows: [mockCheck],
+        });
+
+        const result = await constraintQueries.query(client, {
+          constraintTypes: ["c"],
+          relationOids: [16384],
+          includeSystemSchemas: true,
+        });
+
+        expect(result).toHaveLength(1);
+
+        const query = mockQuery.mock.calls[0][0];
+        expect(query).toContain("c.conrelid = ANY($2)");
+        expect(query).not.toContain("NOT IN");
+        expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining("WHERE"), [["c"], [16384]]);
+      });
+    });
+
+    describe("byOid", () => {
+      it("returns a constraint when found", async () => {
+        mockQuery.mockResolvedValueOnce({
+          rows: [mockUnique],
+        });
+
+        const result = await constraintQueries.byOid(client, 6003);
+
+        expect(result).toEqual(mockUnique);
+        expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining("c.oid = ANY($2)"), [
+          TABLE_CONSTRAINT_TYPES,
+          [6003],
+        ]);
+      });
+
+      it("returns null when constraint not found", async () => {
+        mockQuery.mockResolvedValueOnce({
+          rows: [],
+        });
+
+        const result = await constraintQueries.byOid(client, 9999);
+
+        expect(result).toBeNull();
+      });
+    });
+  });
+
+  describe("createConstraintLoaders", () => {
+    describe("constraintLoader", () => {
+      it("loads multiple constraints by OID in a single query", async () => {
+        mockQuery.mockResolvedValueOnce({
+          rows: [mockPrimaryKey, mockUnique],
+        });
+
+        const { constraintLoader } = createConstraintLoaders(client);
+        const results = await Promise.all([
+          constraintLoader.load(6001),
+          constraintLoader.load(6003),
+          constraintLoader.load(9999),
+        ]);
+
+        expect(results[0]).toEqual(mockPrimaryKey);
+        expect(results[1]).toEqual(mockUnique);
+        expect(results[2]).toBeNull();
+        expect(mockQuery).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe("constraintsByRelationLoader", () => {
+      it("groups constraints by relation in a single query", async () => {
+        mockQuery.mockResolvedValueOnce({
+          rows: [mockPrimaryKey, mockCheck, mockUnique],
+        });
+
+        const { constraintsByRelationLoader } = createConstraintLoaders(client);
+        const results = await Promise.all([
+          constraintsByRelationLoader.load(16384),
+          constraintsByRelationLoader.load(16400),
+          constraintsByRelationLoader.load(99999),
+        ]);
+
+        expect(results[0]).toEqual([mockPrimaryKey, mockCheck]);
+        expect(results[1]).toEqual([mockUnique]);
+        expect(results[2]).toEqual([]);
+        expect(mockQuery).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe("getAllConstraints", () => {
+      it("filters constraints with custom filter function", async () => {
+        mockQuery.mockResolvedValueOnce({
+          rows: [mockPrimaryKey, mockCheck, mockUnique],
+        });
+
+        const { getAllConstraints } = createConstraintLoaders(client);
+        const result = await getAllConstraints((con) => con.condeferrable);
+
+        expect(result).toEqual([mockUnique]);
+      });
+    });
+  });
+});
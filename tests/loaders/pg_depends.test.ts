@@ -0,0 +1,141 @@
+import { Client } from "pg";
+import { createDependLoaders, dependQueries } from "../../src/loaders/pg_depends.js";
+import type { PgDepend } from "../../src/types.js";
+
+// Mock the pg Client
+jest.mock("pg", () => {
+  const mockQuery = jest.fn();
+  return {
+    Client: jest.fn().mockImplementation(() => ({
+      query: mockQuery,
+      connect: jest.fn(),
+      end: jest.fn(),
+    })),
+  };
+});
+
+describe("pg_depends loader", () => {
+  let client: Client;
+  let mockQuery: jest.Mock;
+
+  // Mock dependencies to use in tests: a view on two columns of a table and a
+  // function reading the table as a whole
+  const mockViewOnId: PgDepend = {
+    classid: 1259,
+    objid: 9010,
+    objsubid: 0,
+    refclassid: 1259,
+    refobjid: 9001,
+    refobjsubid: 1,
+    deptype: "n",
+  };
+
+  const mockViewOnEmail: PgDepend = {
+    classid: 1259,
+    objid: 9010,
+    objsubid: 0,
+    refclassid: 1259,
+    refobjid: 9001,
+    refobjsubid: 2,
+    deptype: "n",
+  };
+
+  const mockFunctionOnTable: PgDepend = {
+    classid: 1255,
+    objid: 9020,
+    objsubid: 0,
+    refclassid: 1259,
+    refobjid: 9001,
+    refobjsubid: 0,
+    deptype: "n",
+  };
+
+  beforeEach(() => {
+    client = new Client();
+    mockQuery = client.query as jest.Mock;
+    mockQuery.mockReset();
+  });
+
+  describe("dependQueries", () => {
+    it("reports view rules and column defaults as their relation", async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [mockViewOnId, mockViewOnEmail, mockFunctionOnTable],
+      });
+
+      const result = await dependQueries.query(client);
+
+      expect(result).toEqual([mockViewOnId, mockViewOnEmail, mockFunctionOnTable]);
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("FROM pg_catalog.pg_depend d");
+      expect(query).toContain("LEFT JOIN pg_catalog.pg_rewrite r");
+      expect(query).toContain("r.rulename = '_RETURN'");
+      expect(query).toContain("LEFT JOIN pg_catalog.pg_attrdef ad");
+      expect(query).not.toContain("unnest(");
+      expect(mockQuery.mock.calls[0][1]).toEqual([]);
+    });
+
+    it("combines referenced and dependent key filters", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockViewOnEmail] });
+
+      await dependQueries.query(client, {
+        referencedKeys: [{ classid: 1259, objid: 9001, objsubid: 2 }],
+        dependentKeys: [
+          { classid: 1259, objid: 9010, objsubid: 0 },
+          { classid: 1255, objid: 9020, objsubid: 0 },
+        ],
+      });
+
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("unnest($1::oid[], $2::oid[], $3::int4[]) AS rk");
+      expect(query).toContain("unnest($4::oid[], $5::oid[], $6::int4[]) AS dk");
+      expect(mockQuery.mock.calls[0][1]).toEqual([
+        [1259],
+        [9001],
+        [2],
+        [1259, 1255],
+        [9010, 9020],
+        [0, 0],
+      ]);
+    });
+  });
+
+  describe("createDependLoaders", () => {
+    let loaders: ReturnType<typeof createDependLoaders>;
+
+    beforeEach(() => {
+      loaders = createDependLoaders(client);
+    });
+
+    it("groups dependents by referenced object, matching columns for whole objects", async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [mockViewOnId, mockViewOnEmail, mockFunctionOnTable],
+      });
+
+      const [table, email, other] = await Promise.all([
+        loaders.dependentsLoader.load({ classid: 1259, objid: 9001, objsubid: 0 }),
+        loaders.dependentsLoader.load({ classid: 1259, objid: 9001, objsubid: 2 }),
+        loaders.dependentsLoader.load({ classid: 1259, objid: 9999, objsubid: 0 }),
+      ]);
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(table).toEqual([mockViewOnId, mockViewOnEmail, mockFunctionOnTable]);
+      expect(email).toEqual([mockViewOnEmail]);
+      expect(other).toEqual([]);
+    });
+
+    it("groups dependencies by dependent object", async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [mockViewOnId, mockViewOnEmail, mockFunctionOnTable],
+      });
+
+      const [view, fn] = await Promise.all([
+        loaders.dependenciesLoader.load({ classid: 1259, objid: 9010, objsubid: 0 }),
+        loaders.dependenciesLoader.load({ classid: 1255, objid: 9020, objsubid: 0 }),
+      ]);
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(view).toEqual([mockViewOnId, mockViewOnEmail]);
+      expect(fn).toEqual([mockFunctionOnTable]);
+    });
+  });
+});
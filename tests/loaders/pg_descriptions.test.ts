@@ -0,0 +1,132 @@
+import { Client } from "pg";
+import {
+  CatalogOid,
+  createDescriptionLoaders,
+  descriptionQueries,
+} from "../../src/loaders/pg_descriptions.js";
+import type { PgDescription } from "../../src/types.js";
+
+// Mock the pg Client
+jest.mock("pg", () => {
+  const mockQuery = jest.fn();
+  return {
+    Client: jest.fn().mockImplementation(() => ({
+      query: mockQuery,
+      connect: jest.fn(),
+      end: jest.fn(),
+    })),
+  };
+});
+
+describe("pg_descriptions loader", () => {
+  let client: Client;
+  let mockQuery: jest.Mock;
+
+  // Mock description objects to use in tests
+  const mockTableComment: PgDescription = {
+    classoid: CatalogOid.pg_class,
+    objoid: 16384,
+    objsubid: 0,
+    description: "Registered users",
+  };
+
+  const mockColumnComment: PgDescription = {
+    classoid: CatalogOid.pg_class,
+    objoid: 16384,
+    objsubid: 2,
+    description: "Login email address",
+  };
+
+  const mockRoleComment: PgDescription = {
+    classoid: CatalogOid.pg_authid,
+    objoid: 10,
+    objsubid: 0,
+    description: "Bootstrap superuser",
+  };
+
+  beforeEach(() => {
+    client = new Client();
+    mockQuery = client.query as jest.Mock;
+    mockQuery.mockReset();
+  });
+
+  describe("descriptionQueries", () => {
+    it("reads both local and shared descriptions", async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [mockTableComment, mockRoleComment],
+      });
+
+      const result = await descriptionQueries.query(client);
+
+      expect(result).toEqual([mockTableComment, mockRoleComment]);
+
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("FROM pg_catalog.pg_description d");
+      expect(query).toContain("FROM pg_catalog.pg_shdescription s");
+      expect(query).not.toContain("unnest");
+      expect(mockQuery.mock.calls[0][1]).toEqual([]);
+    });
+
+    it("restricts the query to the requested objects", async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [mockColumnComment],
+      });
+
+      await descriptionQueries.query(client, {
+        keys: [
+          { classoid: CatalogOid.pg_class, objoid: 16384, objsubid: 2 },
+          { classoid: CatalogOid.pg_authid, objoid: 10, objsubid: 0 },
+        ],
+      });
+
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("unnest($1::oid[], $2::oid[], $3::int4[])");
+      expect(mockQuery.mock.calls[0][1]).toEqual([
+        [CatalogOid.pg_class, CatalogOid.pg_authid],
+        [16384, 10],
+        [2, 0],
+      ]);
+    });
+  });
+
+  describe("createDescriptionLoaders", () => {
+    it("loads comments for many objects in a single query", async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [mockRoleComment, mockColumnComment, mockTableComment],
+      });
+
+      const { descriptionLoader } = createDescriptionLoaders(client);
+      const results = await Promise.all([
+        descriptionLoader.load({ classoid: CatalogOid.pg_class, objoid: 16384, objsubid: 0 }),
+        descriptionLoader.load({ classoid: CatalogOid.pg_class, objoid: 16384, objsubid: 2 }),
+        descriptionLoader.load({ classoid: CatalogOid.pg_class, objoid: 16384, objsubid: 3 }),
+        descriptionLoader.load({ classoid: CatalogOid.pg_authid, objoid: 10, objsubid: 0 }),
+      ]);
+
+      expect(results).toEqual([
+        "Registered users",
+        "Login email address",
+        null,
+        "Bootstrap superuser",
+      ]);
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it("caches comments by catalog, object and sub-object", async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [mockTableComment],
+      });
+
+      const { descriptionLoader } = createDescriptionLoaders(client);
+      await descriptionLoader.load({ classoid: CatalogOid.pg_class, objoid: 16384, objsubid: 0 });
+      const cached = await descriptionLoader.load({
+        classoid: CatalogOid.pg_class,
+        objoid: 16384,
+        objsubid: 0,
+      });
+
+      expect(cached).toBe("Registered users");
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { Client } from "pg";
+import {
+  createDomainConstraintLoaders,
+  domainConstraintQueries,
+} from "../../src/loaders/pg_domain_constraints.js";
+import type { PgDomainConstraint } from "../../src/types.js";
+
+// Mock the pg Client
+jest.mock("pg", () => {
+  const mockQuery = jest.fn();
+  return {
+    Client: jest.fn().mockImplementation(() => ({
+      query: mockQuery,
+      connect: jest.fn(),
+      end: jest.fn(),
+    })),
+  };
+});
+
+describe("pg_domain_constraints loader", () => {
+  let client: Client;
+  let mockQuery: jest.Mock;
+
+  // Mock domain constraints to use in tests
+  const mockEmailFormat: PgDomainConstraint = {
+    oid: 9101,
+    conname: "email_format",
+    contypid: 9001,
+    contype: "c",
+    convalidated: true,
+    condef: "CHECK (VALUE ~ '^[^@]+@[^@]+$'::text)",
+  };
+
+  const mockEmailNotNull: PgDomainConstraint = {
+    oid: 9102,
+    conname: "email_address_not_null",
+    contypid: 9001,
+    contype: "n",
+    convalidated: true,
+    condef: "NOT NULL",
+  };
+
+  const mockPositive: PgDomainConstraint = {
+    oid: 9103,
+    conname: "positive_int_check",
+    contypid: 9002,
+    contype: "c",
+    convalidated: false,
+    condef: "CHECK (VALUE > 0) NOT VALID",
+  };
+
+  beforeEach(() => {
+    client = new Client();
+    mockQuery = client.query as jest.Mock;
+    mockQuery.mockReset();
+  });
+
+  describe("domainConstraintQueries", () => {
+    it("only queries domain constraints outside system schemas by default", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockEmailFormat, mockPositive] });
+
+      const result = await domainConstraintQueries.query(client);
+
+      expect(result).toEqual([mockEmailFormat, mockPositive]);
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("c.contypid <> 0");
+      expect(query).toContain("pg_get_constraintdef(c.oid, true)");
+      expect(query).toContain("n.nspname NOT IN");
+      expect(mockQuery.mock.calls[0][1]).toEqual([]);
+    });
+
+    it("filters by domain type OIDs", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockPositive] });
+
+      await domainConstraintQueries.query(client, {
+        typeOids: [9002],
+        includeSystemSchemas: true,
+      });
+
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("c.contypid = ANY($1)");
+      expect(query).not.toContain("n.nspname NOT IN");
+      expect(mockQuery.mock.calls[0][1]).toEqual([[9002]]);
+    });
+  });
+
+  describe("createDomainConstraintLoaders", () => {
+    it("groups constraints by domain type OID", async () => {
+      const loaders = createDomainConstraintLoaders(client);
+      mockQuery.mockResolvedValueOnce({
+        rows: [mockEmailFormat, mockEmailNotNull, mockPositive],
+      });
+
+      const [email, positive, none] = await Promise.all([
+        loaders.domainConstraintsByTypeLoader.load(9001),
+        loaders.domainConstraintsByTypeLoader.load(9002),
+        loaders.domainConstraintsByTypeLoader.load(9003),
+      ]);
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(mockQuery.mock.calls[0][1]).toEqual([[9001, 9002, 9003]]);
+      expect(email).toEqual([mockEmailFormat, mockEmailNotNull]);
+      expect(positive).toEqual([mockPositive]);
+      expect(none).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { Client } from "pg";
+import { createEnumUsageLoaders, enumUsageQueries } from "../../src/loaders/pg_enum_usages.js";
+import type { PgEnumUsage } from "../../src/types.js";
+
+// Mock the pg Client
+jest.mock("pg", () => {
+  const mockQuery = jest.fn();
+  return {
+    Client: jest.fn().mockImplementation(() => ({
+      query: mockQuery,
+      connect: jest.fn(),
+      end: jest.fn(),
+    })),
+  };
+});
+
+describe("pg_enum_usages loader", () => {
+  let client: Client;
+  let mockQuery: jest.Mock;
+
+  // Mock usages to use in tests: a table column and a composite type field
+  const mockColumnUsage: PgEnumUsage = {
+    enumtypid: 9001,
+    attrelid: 9100,
+    attnum: 2,
+    relkind: "r",
+    reltype: 9101,
+  };
+
+  const mockFieldUsage: PgEnumUsage = {
+    enumtypid: 9001,
+    attrelid: 9200,
+    attnum: 1,
+    relkind: "c",
+    reltype: 9201,
+  };
+
+  const mockOtherEnumUsage: PgEnumUsage = {
+    enumtypid: 9002,
+    attrelid: 9100,
+    attnum: 3,
+    relkind: "r",
+    reltype: 9101,
+  };
+
+  beforeEach(() => {
+    client = new Client();
+    mockQuery = client.query as jest.Mock;
+    mockQuery.mockReset();
+  });
+
+  describe("enumUsageQueries", () => {
+    it("follows arrays and domains over enums", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockColumnUsage, mockFieldUsage] });
+
+      const result = await enumUsageQueries.query(client);
+
+      expect(result).toEqual([mockColumnUsage, mockFieldUsage]);
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("WITH RECURSIVE enum_types");
+      expect(query).toContain("t.oid = ut.typarray OR t.typbasetype = et.typid");
+      expect(query).toContain("NOT a.attisdropped");
+      expect(query).toContain("n.nspname NOT IN");
+      expect(mockQuery.mock.calls[0][1]).toEqual([]);
+    });
+
+    it("filters by enum type OIDs", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockOtherEnumUsage] });
+
+      await enumUsageQueries.query(client, { enumTypeOids: [9002], includeSystemSchemas: true });
+
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("t.oid = ANY($1)");
+      expect(query).not.toContain("n.nspname NOT IN");
+      expect(mockQuery.mock.calls[0][1]).toEqual([[9002]]);
+    });
+  });
+
+  describe("createEnumUsageLoaders", () => {
+    it("groups usages by enum type OID", async () => {
+      const loaders = createEnumUsageLoaders(client);
+      mockQuery.mockResolvedValueOnce({
+        rows: [mockColumnUsage, mockFieldUsage, mockOtherEnumUsage],
+      });
+
+      const [status, other, none] = await Promise.all([
+        loaders.enumUsagesByTypeLoader.load(9001),
+        loaders.enumUsagesByTypeLoader.load(9002),
+        loaders.enumUsagesByTypeLoader.load(9003),
+      ]);
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(mockQuery.mock.calls[0][1]).toEqual([[9001, 9002, 9003]]);
+      expect(status).toEqual([mockColumnUsage, mockFieldUsage]);
+      expect(other).toEqual([mockOtherEnumUsage]);
+      expect(none).toEqual([]);
+    });
+  });
+});
@@ -150,6 +150,25 @@ describe("pg_enums loader", () => {
       );
     });
 
+    it("aggregates enum values with their OIDs and sort order", async () => {
+      const enumvalues = [
+        { oid: 101, enumtypid: 1, enumlabel: "a", enumsortorder: 1 },
+        { oid: 103, enumtypid: 1, enumlabel: "c", enumsortorder: 1.5 },
+        { oid: 102, enumtypid: 1, enumlabel: "b", enumsortorder: 2 },
+      ];
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ enumtypid: 1, enumlabels: ["a", "c", "b"], enumvalues }],
+      });
+
+      const result = await enumQueries.query(client);
+
+      expect(result[0].enumvalues).toEqual(enumvalues);
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("'oid', e.oid::int8");
+      expect(query).toContain("'enumsortorder', e.enumsortorder");
+      expect(query).toMatch(/JSON_AGG\([\s\S]*ORDER BY e.enumsortorder\s*\) as enumvalues/);
+    });
+
     it("parses string enumlabels in PostgreSQL array format", async () => {
       mockQuery.mockResolvedValueOnce({
         rows: [
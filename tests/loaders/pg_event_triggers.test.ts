@@ -0,0 +1,114 @@
+import { Client } from "pg";
+import {
+  createEventTriggerLoaders,
+  eventTriggerQueries,
+} from "../../src/loaders/pg_event_triggers.js";
+import type { PgEventTrigger } from "../../src/types.js";
+
+// Mock the pg Client
+jest.mock("pg", () => {
+  const mockQuery = jest.fn();
+  return {
+    Client: jest.fn().mockImplementation(() => ({
+      query: mockQuery,
+      connect: jest.fn(),
+      end: jest.fn(),
+    })),
+  };
+});
+
+describe("pg_event_triggers loader", () => {
+  let client: Client;
+  let mockQuery: jest.Mock;
+
+  // Mock event trigger objects to use in tests
+  const mockDdlWatch: PgEventTrigger = {
+    oid: 9701,
+    evtname: "pgrst_ddl_watch",
+    evtevent: "ddl_command_end",
+    evtowner: 10,
+    evtfoid: 9801,
+    evtenabled: "O",
+    evttags: null,
+  };
+
+  const mockDropWatch: PgEventTrigger = {
+    oid: 9702,
+    evtname: "pgrst_drop_watch",
+    evtevent: "sql_drop",
+    evtowner: 10,
+    evtfoid: 9802,
+    evtenabled: "D",
+    evttags: ["DROP TABLE", "DROP VIEW"],
+  };
+
+  beforeEach(() => {
+    client = new Client();
+    mockQuery = client.query as jest.Mock;
+    mockQuery.mockReset();
+  });
+
+  describe("eventTriggerQueries", () => {
+    it("queries all event triggers without filters", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockDdlWatch, mockDropWatch] });
+
+      const result = await eventTriggerQueries.query(client);
+
+      expect(result).toEqual([mockDdlWatch, mockDropWatch]);
+      expect(mockQuery.mock.calls[0][0]).toContain("FROM pg_catalog.pg_event_trigger e");
+      expect(mockQuery.mock.calls[0][0]).not.toContain("WHERE");
+      expect(mockQuery.mock.calls[0][1]).toEqual([]);
+    });
+
+    it("combines OID and event filters", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockDropWatch] });
+
+      await eventTriggerQueries.query(client, { oids: [9702], events: ["sql_drop"] });
+
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("e.oid = ANY($1)");
+      expect(query).toContain("e.evtevent = ANY($2)");
+      expect(mockQuery.mock.calls[0][1]).toEqual([[9702], ["sql_drop"]]);
+    });
+
+    it("returns null from byOid when the event trigger is not found", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      const result = await eventTriggerQueries.byOid(client, 9999);
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe("createEventTriggerLoaders", () => {
+    let loaders: ReturnType<typeof createEventTriggerLoaders>;
+
+    beforeEach(() => {
+      loaders = createEventTriggerLoaders(client);
+    });
+
+    it("batches event trigger lookups by OID", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockDdlWatch, mockDropWatch] });
+
+      const [drop, ddl, missing] = await Promise.all([
+        loaders.eventTriggerLoader.load(9702),
+        loaders.eventTriggerLoader.load(9701),
+        loaders.eventTriggerLoader.load(9999),
+      ]);
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(mockQuery.mock.calls[0][1]).toEqual([[9702, 9701, 9999]]);
+      expect(drop).toEqual(mockDropWatch);
+      expect(ddl).toEqual(mockDdlWatch);
+      expect(missing).toBeNull();
+    });
+
+    it("filters all event triggers with the provided function", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockDdlWatch, mockDropWatch] });
+
+      const result = await loaders.getAllEventTriggers((evt) => evt.evttags !== null);
+
+      expect(result).toEqual([mockDropWatch]);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { Client } from "pg";
+import {
+  createExtensionMemberLoaders,
+  extensionMemberQueries,
+} from "../../src/loaders/pg_extension_members.js";
+import type { PgExtensionMember } from "../../src/types.js";
+
+// Mock the pg Client
+jest.mock("pg", () => {
+  const mockQuery = jest.fn();
+  return {
+    Client: jest.fn().mockImplementation(() => ({
+      query: mockQuery,
+      connect: jest.fn(),
+      end: jest.fn(),
+    })),
+  };
+});
+
+describe("pg_extension_members loader", () => {
+  let client: Client;
+  let mockQuery: jest.Mock;
+
+  // Mock extension members to use in tests
+  const mockCitextType: PgExtensionMember = {
+    classid: 1247,
+    objid: 9001,
+    extoid: 9100,
+  };
+
+  const mockCitextFunction: PgExtensionMember = {
+    classid: 1255,
+    objid: 9002,
+    extoid: 9100,
+  };
+
+  const mockPostgisTable: PgExtensionMember = {
+    classid: 1259,
+    objid: 9003,
+    extoid: 9200,
+  };
+
+  beforeEach(() => {
+    client = new Client();
+    mockQuery = client.query as jest.Mock;
+    mockQuery.mockReset();
+  });
+
+  describe("extensionMemberQueries", () => {
+    it("only queries extension dependencies", async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [mockCitextType, mockCitextFunction, mockPostgisTable],
+      });
+
+      const result = await extensionMemberQueries.query(client);
+
+      expect(result).toEqual([mockCitextType, mockCitextFunction, mockPostgisTable]);
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("FROM pg_catalog.pg_depend d");
+      expect(query).toContain("d.refclassid = 'pg_catalog.pg_extension'::regclass");
+      expect(query).toContain("d.deptype = 'e'");
+      expect(mockQuery.mock.calls[0][1]).toEqual([]);
+    });
+
+    it("combines extension and object filters", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockCitextType] });
+
+      await extensionMemberQueries.query(client, {
+        extensionOids: [9100],
+        objects: [
+          { classid: 1247, objid: 9001 },
+          { classid: 1259, objid: 9003 },
+        ],
+      });
+
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("d.refobjid = ANY($1)");
+      expect(query).toContain("unnest($2::oid[], $3::oid[])");
+      expect(mockQuery.mock.calls[0][1]).toEqual([[9100], [1247, 1259], [9001, 9003]]);
+    });
+  });
+
+  describe("createExtensionMemberLoaders", () => {
+    let loaders: ReturnType<typeof createExtensionMemberLoaders>;
+
+    beforeEach(() => {
+      loaders = createExtensionMemberLoaders(client);
+    });
+
+    it("groups members by extension OID", async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [mockCitextType, mockCitextFunction, mockPostgisTable],
+      });
+
+      const [citext, postgis, none] = await Promise.all([
+        loaders.extensionMembersByExtensionLoader.load(9100),
+        loaders.extensionMembersByExtensionLoader.load(9200),
+        loaders.extensionMembersByExtensionLoader.load(9300),
+      ]);
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(mockQuery.mock.calls[0][1]).toEqual([[9100, 9200, 9300]]);
+      expect(citext).toEqual([mockCitextType, mockCitextFunction]);
+      expect(postgis).toEqual([mockPostgisTable]);
+      expect(none).toEqual([]);
+    });
+
+    it("batches owning extension lookups by catalog and object OID", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockCitextFunction] });
+
+      const [owned, notOwned, sameOidOtherCatalog] = await Promise.all([
+        loaders.extensionOwnerLoader.load({ classid: 1255, objid: 9002 }),
+        loaders.extensionOwnerLoader.load({ classid: 1259, objid: 9999 }),
+        loaders.extensionOwnerLoader.load({ classid: 1259, objid: 9002 }),
+      ]);
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(owned).toBe(9100);
+      expect(notOwned).toBeNull();
+      expect(sameOidOtherCatalog).toBeNull();
+    });
+  });
+});
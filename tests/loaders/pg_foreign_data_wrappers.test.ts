@@ -0,0 +1,115 @@
+import { Client } from "pg";
+import {
+  createForeignDataWrapperLoaders,
+  foreignDataWrapperQueries,
+} from "../../src/loaders/pg_foreign_data_wrappers.js";
+import type { PgForeignDataWrapper } from "../../src/types.js";
+
+// Mock the pg Client
+jest.mock("pg", () => {
+  const mockQuery = jest.fn();
+  return {
+    Client: jest.fn().mockImplementation(() => ({
+      query: mockQuery,
+      connect: jest.fn(),
+      end: jest.fn(),
+    })),
+  };
+});
+
+describe("pg_foreign_data_wrappers loader", () => {
+  let client: Client;
+  let mockQuery: jest.Mock;
+
+  // Mock foreign data wrapper objects to use in tests
+  const mockPostgresFdw: PgForeignDataWrapper = {
+    oid: 8001,
+    fdwname: "postgres_fdw",
+    fdwowner: 10,
+    fdwhandler: 8101,
+    fdwvalidator: 8102,
+    fdwoptions: null,
+  };
+
+  const mockWrappersFdw: PgForeignDataWrapper = {
+    oid: 8002,
+    fdwname: "stripe_wrapper",
+    fdwowner: 10,
+    fdwhandler: 0,
+    fdwvalidator: 0,
+    fdwoptions: ["debug=true"],
+  };
+
+  beforeEach(() => {
+    client = new Client();
+    mockQuery = client.query as jest.Mock;
+    mockQuery.mockReset();
+  });
+
+  describe("foreignDataWrapperQueries", () => {
+    it("queries all foreign data wrappers without filters", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockPostgresFdw, mockWrappersFdw] });
+
+      const result = await foreignDataWrapperQueries.query(client);
+
+      expect(result).toEqual([mockPostgresFdw, mockWrappersFdw]);
+      expect(mockQuery.mock.calls[0][0]).toContain("FROM pg_catalog.pg_foreign_data_wrapper w");
+      expect(mockQuery.mock.calls[0][0]).not.toContain("WHERE");
+      expect(mockQuery.mock.calls[0][1]).toEqual([]);
+    });
+
+    it("combines OID and name filters", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockPostgresFdw] });
+
+      await foreignDataWrapperQueries.query(client, {
+        oids: [8001],
+        names: ["postgres_fdw"],
+      });
+
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("w.oid = ANY($1)");
+      expect(query).toContain("w.fdwname = ANY($2)");
+      expect(mockQuery.mock.calls[0][1]).toEqual([[8001], ["postgres_fdw"]]);
+    });
+
+    it("returns null from byOid when the wrapper is not found", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      const result = await foreignDataWrapperQueries.byOid(client, 9999);
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe("createForeignDataWrapperLoaders", () => {
+    let loaders: ReturnType<typeof createForeignDataWrapperLoaders>;
+
+    beforeEach(() => {
+      loaders = createForeignDataWrapperLoaders(client);
+    });
+
+    it("batches foreign data wrapper lookups by OID", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockPostgresFdw, mockWrappersFdw] });
+
+      const [first, second, missing] = await Promise.all([
+        loaders.foreignDataWrapperLoader.load(8002),
+        loaders.foreignDataWrapperLoader.load(8001),
+        loaders.foreignDataWrapperLoader.load(9999),
+      ]);
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(mockQuery.mock.calls[0][1]).toEqual([[8002, 8001, 9999]]);
+      expect(first).toEqual(mockWrappersFdw);
+      expect(second).toEqual(mockPostgresFdw);
+      expect(missing).toBeNull();
+    });
+
+    it("filters all foreign data wrappers with the provided function", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockPostgresFdw, mockWrappersFdw] });
+
+      const result = await loaders.getAllForeignDataWrappers((fdw) => fdw.fdwhandler !== 0);
+
+      expect(result).toEqual([mockPostgresFdw]);
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { Client } from "pg";
+import {
+  createForeignServerLoaders,
+  foreignServerQueries,
+} from "../../src/loaders/pg_foreign_servers.js";
+import type { PgForeignServer } from "../../src/types.js";
+
+// Mock the pg Client
+jest.mock("pg", () => {
+  const mockQuery = jest.fn();
+  return {
+    Client: jest.fn().mockImplementation(() => ({
+      query: mockQuery,
+      connect: jest.fn(),
+      end: jest.fn(),
+    })),
+  };
+});
+
+describe("pg_foreign_servers loader", () => {
+  let client: Client;
+  let mockQuery: jest.Mock;
+
+  // Mock foreign server objects to use in tests
+  const mockReportingServer: PgForeignServer = {
+    oid: 8201,
+    srvname: "reporting",
+    srvowner: 10,
+    srvfdw: 8001,
+    srvtype: null,
+    srvversion: "16",
+    srvoptions: ["host=db.internal", "dbname=reports"],
+  };
+
+  const mockStripeServer: PgForeignServer = {
+    oid: 8202,
+    srvname: "stripe",
+    srvowner: 10,
+    srvfdw: 8002,
+    srvtype: null,
+    srvversion: null,
+    srvoptions: ["api_key_id=5a4e"],
+  };
+
+  beforeEach(() => {
+    client = new Client();
+    mockQuery = client.query as jest.Mock;
+    mockQuery.mockReset();
+  });
+
+  describe("foreignServerQueries", () => {
+    it("queries all foreign servers without filters", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockReportingServer, mockStripeServer] });
+
+      const result = await foreignServerQueries.query(client);
+
+      expect(result).toEqual([mockReportingServer, mockStripeServer]);
+      expect(mockQuery.mock.calls[0][0]).toContain("FROM pg_catalog.pg_foreign_server s");
+      expect(mockQuery.mock.calls[0][0]).not.toContain("WHERE");
+    });
+
+    it("combines OID and wrapper filters", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockReportingServer] });
+
+      await foreignServerQueries.query(client, { oids: [8201], wrapperOids: [8001] });
+
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("s.oid = ANY($1)");
+      expect(query).toContain("s.srvfdw = ANY($2)");
+      expect(mockQuery.mock.calls[0][1]).toEqual([[8201], [8001]]);
+    });
+  });
+
+  describe("createForeignServerLoaders", () => {
+    let loaders: ReturnType<typeof createForeignServerLoaders>;
+
+    beforeEach(() => {
+      loaders = createForeignServerLoaders(client);
+    });
+
+    it("batches foreign server lookups by OID", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockReportingServer] });
+
+      const [found, missing] = await Promise.all([
+        loaders.foreignServerLoader.load(8201),
+        loaders.foreignServerLoader.load(9999),
+      ]);
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(mockQuery.mock.calls[0][1]).toEqual([[8201, 9999]]);
+      expect(found).toEqual(mockReportingServer);
+      expect(missing).toBeNull();
+    });
+
+    it("groups foreign servers by wrapper OID", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockReportingServer, mockStripeServer] });
+
+      const [postgres, stripe, none] = await Promise.all([
+        loaders.foreignServersByWrapperLoader.load(8001),
+        loaders.foreignServersByWrapperLoader.load(8002),
+        loaders.foreignServersByWrapperLoader.load(8003),
+      ]);
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(postgres).toEqual([mockReportingServer]);
+      expect(stripe).toEqual([mockStripeServer]);
+      expect(none).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { Client } from "pg";
+import {
+  createForeignTableLoaders,
+  foreignTableQueries,
+} from "../../src/loaders/pg_foreign_tables.js";
+import type { PgForeignTable } from "../../src/types.js";
+
+// Mock the pg Client
+jest.mock("pg", () => {
+  const mockQuery = jest.fn();
+  return {
+    Client: jest.fn().mockImplementation(() => ({
+      query: mockQuery,
+      connect: jest.fn(),
+      end: jest.fn(),
+    })),
+  };
+});
+
+describe("pg_foreign_tables loader", () => {
+  let client: Client;
+  let mockQuery: jest.Mock;
+
+  // Mock foreign table objects to use in tests
+  const mockOrdersTable: PgForeignTable = {
+    ftrelid: 8301,
+    ftserver: 8201,
+    ftoptions: ["schema_name=public", "table_name=orders"],
+  };
+
+  const mockCustomersTable: PgForeignTable = {
+    ftrelid: 8302,
+    ftserver: 8202,
+    ftoptions: ["object=customers"],
+  };
+
+  beforeEach(() => {
+    client = new Client();
+    mockQuery = client.query as jest.Mock;
+    mockQuery.mockReset();
+  });
+
+  describe("foreignTableQueries", () => {
+    it("excludes system schemas by default", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockOrdersTable, mockCustomersTable] });
+
+      const result = await foreignTableQueries.query(client);
+
+      expect(result).toEqual([mockOrdersTable, mockCustomersTable]);
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("FROM pg_catalog.pg_foreign_table ft");
+      expect(query).toContain(
+        "n.nspname NOT IN ('pg_toast', 'pg_catalog', 'information_schema', 'pg_temp')"
+      );
+    });
+
+    it("combines relation and server filters", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockOrdersTable] });
+
+      await foreignTableQueries.query(client, {
+        relationOids: [8301],
+        serverOids: [8201],
+        includeSystemSchemas: true,
+      });
+
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("ft.ftrelid = ANY($1)");
+      expect(query).toContain("ft.ftserver = ANY($2)");
+      expect(query).not.toContain("NOT IN");
+      expect(mockQuery.mock.calls[0][1]).toEqual([[8301], [8201]]);
+    });
+  });
+
+  describe("createForeignTableLoaders", () => {
+    let loaders: ReturnType<typeof createForeignTableLoaders>;
+
+    beforeEach(() => {
+      loaders = createForeignTableLoaders(client);
+    });
+
+    it("batches foreign table lookups by relation OID", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockOrdersTable, mockCustomersTable] });
+
+      const [orders, customers, missing] = await Promise.all([
+        loaders.foreignTableLoader.load(8301),
+        loaders.foreignTableLoader.load(8302),
+        loaders.foreignTableLoader.load(9999),
+      ]);
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(mockQuery.mock.calls[0][1]).toEqual([[8301, 8302, 9999]]);
+      expect(orders).toEqual(mockOrdersTable);
+      expect(customers).toEqual(mockCustomersTable);
+      expect(missing).toBeNull();
+    });
+
+    it("groups foreign tables by server OID", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockOrdersTable, mockCustomersTable] });
+
+      const [reporting, none] = await Promise.all([
+        loaders.foreignTablesByServerLoader.load(8201),
+        loaders.foreignTablesByServerLoader.load(8203),
+      ]);
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(reporting).toEqual([mockOrdersTable]);
+      expect(none).toEqual([]);
+    });
+  });
+});
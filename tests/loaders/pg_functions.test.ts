@@ -0,0 +1,266 @@
+import { Client } from "pg";
+import { createFunctionLoaders, functionQueries } from "../../src/loaders/pg_functions.js";
+import type { PgFunction } from "../../src/types.js";
+
+// Mock the pg Client
+jest.mock("pg", () => {
+  const mockQuery = jest.fn();
+  return {
+    Client: jest.fn().mockImplementation(() => ({
+      query: mockQuery,
+      connect: jest.fn(),
+      end: jest.fn(),
+    })),
+  };
+});
+
+describe("pg_functions loader", () => {
+  let client: Client;
+  let mockQuery: jest.Mock;
+
+  // Mock function objects to use in tests
+  const mockFunction1: PgFunction = {
+    oid: 5001,
+    proname: "add_numbers",
+    pronamespace: 2200,
+    prokind: "f",
+    lanname: "sql",
+    provolatile: "i",
+    proisstrict: true,
+    prosecdef: false,
+    proretset: false,
+    prorettype: 23,
+    pronargs: 2,
+    pronargdefaults: 0,
+    proargtypes: [23, 23],
+    proargmodes: null,
+    proargnames: ["a", "b"],
+    proconfig: null,
+    prodef: "CREATE OR REPLACE FUNCTION public.add_numbers(a integer, b integer) ...",
+  };
+
+  const mockFunction2: PgFunction = {
+    oid: 5002,
+    proname: "do_cleanup",
+    pronamespace: 2200,
+    prokind: "p",
+    lanname: "plpgsql",
+    provolatile: "v",
+    proisstrict: false,
+    prosecdef: true,
+    proretset: false,
+    prorettype: 2278,
+    pronargs: 0,
+    pronargdefaults: 0,
+    proargtypes: [],
+    proargmodes: null,
+    proargnames: null,
+    proconfig: ["search_path=public"],
+    prodef: "CREATE OR REPLACE PROCEDURE public.do_cleanup() ...",
+  };
+
+  const mockFunction3: PgFunction = {
+    oid: 5003,
+    proname: "get_user",
+    pronamespace: 16400,
+    prokind: "f",
+    lanname: "sql",
+    provolatile: "s",
+    proisstrict: false,
+    prosecdef: false,
+    proretset: true,
+    prorettype: 2249,
+    pronargs: 1,
+    pronargdefaults: 0,
+    proargtypes: [20, 20, 25],
+    proargmodes: ["i", "t", "t"],
+    proargnames: ["user_id", "id", "email"],
+    proconfig: null,
+    prodef: "CREATE OR REPLACE FUNCTION auth.get_user(user_id bigint) ...",
+  };
+
+  beforeEach(() => {
+    client = new Client();
+    mockQuery = client.query as jest.Mock;
+    mockQuery.mockReset();
+  });
+
+  describe("functionQueries", () => {
+    describe("query", () => {
+      it("excludes system schemas by default", async () => {
+        mockQuery.mockResolvedValueOnce({
+          rows: [mockFunction1, mockFunction2, mockFunction3],
+        });
+
+        const result = await functionQueries.query(client);
+
+        expect(result).toHaveLength(3);
+        expect(result[0]).toEqual(mockFunction1);
+        expect(mockQuery).toHaveBeenCalledWith(
+          expect.stringContaining(
+            "n.nspname NOT IN ('pg_toast', 'pg_catalog', 'information_schema', 'pg_temp')"
+          ),
+          []
+        );
+      });
+
+      it("queries functions with oids filter", async () => {
+        mockQuery.mockResolvedValueOnce({
+          rows: [mockFunction1],
+        });
+
+        const result = await functionQueries.query(client, { oids: [5001] });
+
+        expect(result).toHaveLength(1);
+        expect(result[0]).toEqual(mockFunction1);
+        expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining("WHERE p.oid = ANY($1)"), [
+          [5001],
+        ]);
+      });
+
+      it("queries functions with namespaceOids filter", async () => {
+        mockQuery.mockResolvedValueOnce({
+          rows: [mockFunction1, mockFunction2],
+        });
+
+        const result = await functionQueries.query(client, { namespaceOids: [2200] });
+
+        expect(result).toHaveLength(2);
+        expect(mockQuery).toHaveBeenCalledWith(
+          expect.stringContaining("WHERE p.pronamespace = ANY($1)"),
+          [[2200]]
+        );
+      });
+
+      it("does not call pg_get_functiondef for aggregates", async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [] });
+
+        await functionQueries.query(client);
+
+        expect(mockQuery).toHaveBeenCalledWith(
+          expect.stringContaining("case when p.prokind <> 'a' then pg_get_functiondef(p.oid) end"),
+          []
+        );
+      });
+
+      it("combines multiple filter conditions", async () => {
+        mockQuery.mockResolvedValueOnce({
+          rows: [mockFunction3],
+        });
+
+        const result = await functionQueries.query(client, {
+          functionNames: ["get_user"],
+          schemaNames: ["auth"],
+          includeSystemSchemas: true,
+        });
+
+        expect(result).toHaveLength(1);
+
+        const query = mockQuery.mock.calls[0][0];
+        expect(query).toContain("p.proname = ANY($1)");
+        expect(query).toContain("n.nspname = ANY($2)");
+        expect(query).not.toContain("NOT IN");
+        expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining("WHERE"), [
+          ["get_user"],
+          ["auth"],
+        ]);
+      });
+    });
+
+    describe("byOid", () => {
+      it("returns a function when found", async () => {
+        mockQuery.mockResolvedValueOnce({
+          rows: [mockFunction2],
+        });
+
+        const result = await functionQueries.byOid(client, 5002);
+
+        expect(result).toEqual(mockFunction2);
+      });
+
+      it("returns null when function not found", async () => {
+        mockQuery.mockResolvedValueOnce({
+          rows: [],
+        });
+
+        const result = await functionQueries.byOid(client, 9999);
+
+        expect(result).toBeNull();
+      });
+    });
+
+    describe("byNameAndSchema", () => {
+      it("returns every overload with the given name", async () => {
+        mockQuery.mockResolvedValueOnce({
+          rows: [mockFunction1, { ...mockFunction1, oid: 5004, proargtypes: [20, 20] }],
+        });
+
+        const result = await functionQueries.byNameAndSchema(client, "public", "add_numbers");
+
+        expect(result).toHaveLength(2);
+        expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining("WHERE"), [
+          ["add_numbers"],
+          ["public"],
+        ]);
+      });
+    });
+  });
+
+  describe("createFunctionLoaders", () => {
+    describe("functionLoader", () => {
+      it("loads multiple functions by OID in a single query", async () => {
+        mockQuery.mockResolvedValueOnce({
+          rows: [mockFunction1, mockFunction3],
+        });
+
+        const { functionLoader } = createFunctionLoaders(client);
+        const results = await Promise.all([
+          functionLoader.load(5001),
+          functionLoader.load(5003),
+          functionLoader.load(9999),
+        ]);
+
+        expect(results[0]).toEqual(mockFunction1);
+        expect(results[1]).toEqual(mockFunction3);
+        expect(results[2]).toBeNull();
+        expect(mockQuery).toHaveBeenCalledTimes(1);
+        expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining("p.oid = ANY($1)"), [
+          [5001, 5003, 9999],
+        ]);
+      });
+    });
+
+    describe("functionsByNamespaceLoader", () => {
+      it("groups functions by namespace in a single query", async () => {
+        mockQuery.mockResolvedValueOnce({
+          rows: [mockFunction1, mockFunction2, mockFunction3],
+        });
+
+        const { functionsByNamespaceLoader } = createFunctionLoaders(client);
+        const results = await Promise.all([
+          functionsByNamespaceLoader.load(2200),
+          functionsByNamespaceLoader.load(16400),
+          functionsByNamespaceLoader.load(99999),
+        ]);
+
+        expect(results[0]).toEqual([mockFunction1, mockFunction2]);
+        expect(results[1]).toEqual([mockFunction3]);
+        expect(results[2]).toEqual([]);
+        expect(mockQuery).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe("getAllFunctions", () => {
+      it("filters functions with custom filter function", async () => {
+        mockQuery.mockResolvedValueOnce({
+          rows: [mockFunction1, mockFunction2, mockFunction3],
+        });
+
+        const { getAllFunctions } = createFunctionLoaders(client);
+        const result = await getAllFunctions((fn) => fn.prokind === "p");
+
+        expect(result).toEqual([mockFunction2]);
+      });
+    });
+  });
+});
@@ -23,6 +23,17 @@ describe("pg_indexes", () => {
     indexam: "btree",
     indkey: "1 2",
     indexdef: "CREATE INDEX idx1 ON test_table USING btree (col1, col2)",
+    indisunique: false,
+    indisprimary: false,
+    indisexclusion: false,
+    indisvalid: true,
+    indnkeyatts: 2,
+    indpred: null,
+    indcanorder: true,
+    indcolumns: [
+      { attnum: 1, expression: null, opclass: "int4_ops", option: 0 },
+      { attnum: 2, expression: null, opclass: "text_ops", option: 3 },
+    ],
   };
 
   const mockIndex2: PgIndex = {
@@ -31,6 +42,14 @@ describe("pg_indexes", () => {
     indexam: "hash",
     indkey: "3",
     indexdef: "CREATE INDEX idx2 ON test_table USING hash (col3)",
+    indisunique: false,
+    indisprimary: false,
+    indisexclusion: false,
+    indisvalid: true,
+    indnkeyatts: 1,
+    indpred: null,
+    indcanorder: false,
+    indcolumns: [{ attnum: 3, expression: null, opclass: "text_ops", option: 0 }],
   };
 
   const mockIndex3: PgIndex = {
@@ -39,6 +58,14 @@ describe("pg_indexes", () => {
     indexam: "btree",
     indkey: "1",
     indexdef: "CREATE INDEX idx3 ON other_table USING btree (col1)",
+    indisunique: true,
+    indisprimary: true,
+    indisexclusion: false,
+    indisvalid: true,
+    indnkeyatts: 1,
+    indpred: null,
+    indcanorder: true,
+    indcolumns: [{ attnum: 1, expression: null, opclass: "int4_ops", option: 0 }],
   };
 
   beforeEach(() => {
@@ -59,6 +86,18 @@ describe("pg_indexes", () => {
         expect(result).toEqual([mockIndex1, mockIndex2, mockIndex3]);
       });
 
+      it("loads index flags, predicate and per-column details", async () => {
+        mockClient.query.mockResolvedValueOnce({ rows: [] });
+
+        await indexQueries.query(mockClient as unknown as Client);
+
+        const query = mockClient.query.mock.calls[0][0];
+        expect(query).toContain("pg_get_expr(x.indpred, x.indrelid) as indpred");
+        expect(query).toContain("pg_indexam_has_property(am.oid, 'can_order') as indcanorder");
+        expect(query).toContain("FROM unnest(x.indkey::int2[]) WITH ORDINALITY AS k(attnum, ord)");
+        expect(query).toContain("x.indoption[k.ord - 1]");
+      });
+
       it("queries indexes with indexOids filter", async () => {
         mockClient.query.mockResolvedValueOnce({ rows: [mockIndex1] });
 
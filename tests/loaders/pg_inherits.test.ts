@@ -0,0 +1,99 @@
+import { Client } from "pg";
+import { inheritsQueries, createInheritsLoaders } from "../../src/loaders/pg_inherits.js";
+import type { PgInherits } from "../../src/types.js";
+
+// Mock the pg Client
+jest.mock("pg", () => {
+  const mockQuery = jest.fn();
+  return {
+    Client: jest.fn().mockImplementation(() => ({
+      query: mockQuery,
+      connect: jest.fn(),
+      end: jest.fn(),
+    })),
+  };
+});
+
+describe("pg_inherits loader", () => {
+  let client: Client;
+  let mockQuery: jest.Mock;
+
+  // capitals inherits (cities, audited) and towns inherits (cities)
+  const capitalsFromCities: PgInherits = { inhrelid: 9003, inhparent: 9001, inhseqno: 1 };
+  const capitalsFromAudited: PgInherits = { inhrelid: 9003, inhparent: 9002, inhseqno: 2 };
+  const townsFromCities: PgInherits = { inhrelid: 9004, inhparent: 9001, inhseqno: 1 };
+
+  beforeEach(() => {
+    client = new Client();
+    mockQuery = client.query as jest.Mock;
+    mockQuery.mockReset();
+  });
+
+  describe("inheritsQueries", () => {
+    it("excludes partitions and system schemas by default", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [capitalsFromCities] });
+
+      const result = await inheritsQueries.query(client);
+
+      expect(result).toEqual([capitalsFromCities]);
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("FROM pg_catalog.pg_inherits i");
+      expect(query).toContain("NOT c.relispartition");
+      expect(query).toContain("n.nspname NOT IN");
+      expect(query).toContain("ORDER BY n.nspname, c.relname, i.inhseqno");
+      expect(mockQuery.mock.calls[0][1]).toEqual([]);
+    });
+
+    it("filters by child and parent OIDs", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await inheritsQueries.query(client, {
+        childOids: [9003],
+        parentOids: [9001],
+        includeSystemSchemas: true,
+      });
+
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("i.inhrelid = ANY($1)");
+      expect(query).toContain("i.inhparent = ANY($2)");
+      expect(query).not.toContain("n.nspname NOT IN");
+      expect(mockQuery.mock.calls[0][1]).toEqual([[9003], [9001]]);
+    });
+  });
+
+  describe("createInheritsLoaders", () => {
+    it("groups parents by child OID", async () => {
+      const loaders = createInheritsLoaders(client);
+      mockQuery.mockResolvedValueOnce({
+        rows: [capitalsFromCities, capitalsFromAudited, townsFromCities],
+      });
+
+      const [capitals, towns, cities] = await Promise.all([
+        loaders.inheritsByChildLoader.load(9003),
+        loaders.inheritsByChildLoader.load(9004),
+        loaders.inheritsByChildLoader.load(9001),
+      ]);
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(mockQuery.mock.calls[0][1]).toEqual([[9003, 9004, 9001]]);
+      expect(capitals).toEqual([capitalsFromCities, capitalsFromAudited]);
+      expect(towns).toEqual([townsFromCities]);
+      expect(cities).toEqual([]);
+    });
+
+    it("groups children by parent OID", async () => {
+      const loaders = createInheritsLoaders(client);
+      mockQuery.mockResolvedValueOnce({
+        rows: [capitalsFromCities, capitalsFromAudited, townsFromCities],
+      });
+
+      const [cities, audited] = await Promise.all([
+        loaders.inheritsByParentLoader.load(9001),
+        loaders.inheritsByParentLoader.load(9002),
+      ]);
+
+      expect(cities).toEqual([capitalsFromCities, townsFromCities]);
+      expect(audited).toEqual([capitalsFromAudited]);
+    });
+  });
+});
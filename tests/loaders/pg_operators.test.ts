@@ -0,0 +1,115 @@
+import { Client } from "pg";
+import { operatorQueries, createOperatorLoaders } from "../../src/loaders/pg_operators.js";
+import type { PgOperator } from "../../src/types.js";
+
+// Mock the pg Client
+jest.mock("pg", () => {
+  const mockQuery = jest.fn();
+  return {
+    Client: jest.fn().mockImplementation(() => ({
+      query: mockQuery,
+      connect: jest.fn(),
+      end: jest.fn(),
+    })),
+  };
+});
+
+describe("pg_operators loader", () => {
+  let client: Client;
+  let mockQuery: jest.Mock;
+
+  // Mock operators to use in tests
+  const mockAdd: PgOperator = {
+    oid: 17101,
+    oprname: "+",
+    oprnamespace: 16384,
+    oprowner: 10,
+    oprkind: "b",
+    oprcanmerge: false,
+    oprcanhash: false,
+    oprleft: 17200,
+    oprright: 17200,
+    oprresult: 17200,
+    oprcom: 17101,
+    oprnegate: 0,
+    oprcode: 17300,
+    oprrest: 0,
+    oprjoin: 0,
+  };
+
+  const mockNeg: PgOperator = {
+    ...mockAdd,
+    oid: 17102,
+    oprname: "-",
+    oprnamespace: 16385,
+    oprkind: "l",
+    oprleft: 0,
+    oprcom: 0,
+    oprcode: 17301,
+  };
+
+  beforeEach(() => {
+    client = new Client();
+    mockQuery = client.query as jest.Mock;
+    mockQuery.mockReset();
+  });
+
+  describe("operatorQueries", () => {
+    it("excludes pg_catalog and other system schemas by default", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockAdd] });
+
+      const result = await operatorQueries.query(client);
+
+      expect(result).toEqual([mockAdd]);
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("FROM pg_catalog.pg_operator o");
+      expect(query).toContain("n.nspname NOT IN ('pg_toast', 'pg_catalog'");
+      expect(mockQuery.mock.calls[0][1]).toEqual([]);
+    });
+
+    it("filters by OIDs and namespace OIDs", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await operatorQueries.query(client, {
+        oids: [17101],
+        namespaceOids: [16384],
+        includeSystemSchemas: true,
+      });
+
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("o.oid = ANY($1)");
+      expect(query).toContain("o.oprnamespace = ANY($2)");
+      expect(query).not.toContain("n.nspname NOT IN");
+      expect(mockQuery.mock.calls[0][1]).toEqual([[17101], [16384]]);
+    });
+  });
+
+  describe("createOperatorLoaders", () => {
+    it("loads operators by OID in request order", async () => {
+      const loaders = createOperatorLoaders(client);
+      mockQuery.mockResolvedValueOnce({ rows: [mockAdd, mockNeg] });
+
+      const result = await loaders.operatorLoader.loadMany([17102, 1, 17101]);
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(result).toEqual([mockNeg, null, mockAdd]);
+    });
+
+    it("groups operators by namespace OID", async () => {
+      const loaders = createOperatorLoaders(client);
+      mockQuery.mockResolvedValueOnce({ rows: [mockAdd, mockNeg] });
+
+      const [first, second, none] = await Promise.all([
+        loaders.operatorsByNamespaceLoader.load(16384),
+        loaders.operatorsByNamespaceLoader.load(16385),
+        loaders.operatorsByNamespaceLoader.load(2200),
+      ]);
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(mockQuery.mock.calls[0][1]).toEqual([[16384, 16385, 2200]]);
+      expect(first).toEqual([mockAdd]);
+      expect(second).toEqual([mockNeg]);
+      expect(none).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { Client } from "pg";
+import {
+  createPartitionedTableLoaders,
+  partitionedTableQueries,
+} from "../../src/loaders/pg_partitioned_tables.js";
+import type { PgPartitionedTable } from "../../src/types.js";
+
+// Mock the pg Client
+jest.mock("pg", () => {
+  const mockQuery = jest.fn();
+  return {
+    Client: jest.fn().mockImplementation(() => ({
+      query: mockQuery,
+      connect: jest.fn(),
+      end: jest.fn(),
+    })),
+  };
+});
+
+describe("pg_partitioned_tables loader", () => {
+  let client: Client;
+  let mockQuery: jest.Mock;
+
+  // Mock partitioned table objects to use in tests
+  const mockRangeTable: PgPartitionedTable = {
+    partrelid: 8001,
+    partstrat: "r",
+    partattrs: [2],
+    partkeydef: "RANGE (created_at)",
+  };
+
+  const mockListTable: PgPartitionedTable = {
+    partrelid: 8002,
+    partstrat: "l",
+    partattrs: [0],
+    partkeydef: "LIST (lower(region))",
+  };
+
+  beforeEach(() => {
+    client = new Client();
+    mockQuery = client.query as jest.Mock;
+    mockQuery.mockReset();
+  });
+
+  describe("partitionedTableQueries", () => {
+    describe("query", () => {
+      it("excludes system schemas by default", async () => {
+        mockQuery.mockResolvedValueOnce({
+          rows: [mockRangeTable, mockListTable],
+        });
+
+        const result = await partitionedTableQueries.query(client);
+
+        expect(result).toEqual([mockRangeTable, mockListTable]);
+
+        const query = mockQuery.mock.calls[0][0];
+        expect(query).toContain("pt.partattrs::int2[] AS partattrs");
+        expect(query).toContain("pg_catalog.pg_get_partkeydef(pt.partrelid) AS partkeydef");
+        expect(query).toContain(
+          "n.nspname NOT IN ('pg_toast', 'pg_catalog', 'information_schema', 'pg_temp')"
+        );
+      });
+
+      it("filters by relation OIDs", async () => {
+        mockQuery.mockResolvedValueOnce({
+          rows: [mockRangeTable],
+        });
+
+        await partitionedTableQueries.query(client, {
+          relationOids: [8001],
+          includeSystemSchemas: true,
+        });
+
+        const query = mockQuery.mock.calls[0][0];
+        expect(query).toContain("WHERE pt.partrelid = ANY($1)");
+        expect(query).not.toContain("NOT IN");
+        expect(mockQuery.mock.calls[0][1]).toEqual([[8001]]);
+      });
+    });
+
+    describe("byOid", () => {
+      it("returns null when the table is not partitioned", async () => {
+        mockQuery.mockResolvedValueOnce({
+          rows: [],
+        });
+
+        const result = await partitionedTableQueries.byOid(client, 9999);
+
+        expect(result).toBeNull();
+      });
+    });
+  });
+
+  describe("createPartitionedTableLoaders", () => {
+    it("loads multiple partitioning schemes by OID in a single query", async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [mockRangeTable, mockListTable],
+      });
+
+      const { partitionedTableLoader } = createPartitionedTableLoaders(client);
+      const results = await Promise.all([
+        partitionedTableLoader.load(8002),
+        partitionedTableLoader.load(8001),
+        partitionedTableLoader.load(9999),
+      ]);
+
+      expect(results).toEqual([mockListTable, mockRangeTable, null]);
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it("filters partitioned tables with custom filter function", async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [mockRangeTable, mockListTable],
+      });
+
+      const { getAllPartitionedTables } = createPartitionedTableLoaders(client);
+      const result = await getAllPartitionedTables((table) => table.partstrat === "l");
+
+      expect(result).toEqual([mockListTable]);
+    });
+  });
+});
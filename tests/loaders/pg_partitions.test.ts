@@ -0,0 +1,136 @@
+import { Client } from "pg";
+import { createPartitionLoaders, partitionQueries } from "../../src/loaders/pg_partitions.js";
+import type { PgPartition } from "../../src/types.js";
+
+// Mock the pg Client
+jest.mock("pg", () => {
+  const mockQuery = jest.fn();
+  return {
+    Client: jest.fn().mockImplementation(() => ({
+      query: mockQuery,
+      connect: jest.fn(),
+      end: jest.fn(),
+    })),
+  };
+});
+
+describe("pg_partitions loader", () => {
+  let client: Client;
+  let mockQuery: jest.Mock;
+
+  // Mock partition objects to use in tests
+  const mockPartition1: PgPartition = {
+    inhrelid: 8101,
+    inhparent: 8001,
+    partbound: "FOR VALUES FROM ('2024-01-01') TO ('2024-02-01')",
+  };
+
+  const mockPartition2: PgPartition = {
+    inhrelid: 8102,
+    inhparent: 8001,
+    partbound: "DEFAULT",
+  };
+
+  const mockPartition3: PgPartition = {
+    inhrelid: 8201,
+    inhparent: 8002,
+    partbound: "FOR VALUES IN ('eu')",
+  };
+
+  beforeEach(() => {
+    client = new Client();
+    mockQuery = client.query as jest.Mock;
+    mockQuery.mockReset();
+  });
+
+  describe("partitionQueries", () => {
+    describe("query", () => {
+      it("only returns partitions and excludes system schemas by default", async () => {
+        mockQuery.mockResolvedValueOnce({
+          rows: [mockPartition1, mockPartition2, mockPartition3],
+        });
+
+        const result = await partitionQueries.query(client);
+
+        expect(result).toHaveLength(3);
+
+        const query = mockQuery.mock.calls[0][0];
+        expect(query).toContain("WHERE c.relispartition");
+        expect(query).toContain("pg_catalog.pg_get_expr(c.relpartbound, c.oid) AS partbound");
+        expect(query).toContain(
+          "n.nspname NOT IN ('pg_toast', 'pg_catalog', 'information_schema', 'pg_temp')"
+        );
+      });
+
+      it("combines multiple filter conditions", async () => {
+        mockQuery.mockResolvedValueOnce({
+          rows: [mockPartition2],
+        });
+
+        await partitionQueries.query(client, {
+          partitionOids: [8102],
+          parentOids: [8001],
+          includeSystemSchemas: true,
+        });
+
+        const query = mockQuery.mock.calls[0][0];
+        expect(query).toContain("i.inhrelid = ANY($1)");
+        expect(query).toContain("i.inhparent = ANY($2)");
+        expect(query).not.toContain("NOT IN");
+        expect(mockQuery.mock.calls[0][1]).toEqual([[8102], [8001]]);
+      });
+    });
+
+    describe("byOid", () => {
+      it("returns a partition when found", async () => {
+        mockQuery.mockResolvedValueOnce({
+          rows: [mockPartition3],
+        });
+
+        const result = await partitionQueries.byOid(client, 8201);
+
+        expect(result).toEqual(mockPartition3);
+      });
+    });
+  });
+
+  describe("createPartitionLoaders", () => {
+    describe("partitionLoader", () => {
+      it("loads multiple partitions by OID in a single query", async () => {
+        mockQuery.mockResolvedValueOnce({
+          rows: [mockPartition1, mockPartition3],
+        });
+
+        const { partitionLoader } = createPartitionLoaders(client);
+        const results = await Promise.all([
+          partitionLoader.load(8101),
+          partitionLoader.load(8201),
+          partitionLoader.load(9999),
+        ]);
+
+        expect(results).toEqual([mockPartition1, mockPartition3, null]);
+        expect(mockQuery).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe("partitionsByParentLoader", () => {
+      it("groups partitions by parent in a single query", async () => {
+        mockQuery.mockResolvedValueOnce({
+          rows: [mockPartition1, mockPartition2, mockPartition3],
+        });
+
+        const { partitionsByParentLoader } = createPartitionLoaders(client);
+        const results = await Promise.all([
+          partitionsByParentLoader.load(8001),
+          partitionsByParentLoader.load(8002),
+          partitionsByParentLoader.load(9999),
+        ]);
+
+        expect(results[0]).toEqual([mockPartition1, mockPartition2]);
+        expect(results[1]).toEqual([mockPartition3]);
+        expect(results[2]).toEqual([]);
+        expect(mockQuery).toHaveBeenCalledTimes(1);
+      });
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { Client } from "pg";
+import {
+  createPublicationRelLoaders,
+  publicationRelQueries,
+} from "../../src/loaders/pg_publication_rels.js";
+import type { PgPublicationRel } from "../../src/types.js";
+
+// Mock the pg Client
+jest.mock("pg", () => {
+  const mockQuery = jest.fn();
+  return {
+    Client: jest.fn().mockImplementation(() => ({
+      query: mockQuery,
+      connect: jest.fn(),
+      end: jest.fn(),
+    })),
+  };
+});
+
+describe("pg_publication_rels loader", () => {
+  let client: Client;
+  let mockQuery: jest.Mock;
+
+  // Mock publication tables to use in tests
+  const mockMessagesRel: PgPublicationRel = {
+    oid: 9501,
+    prpubid: 9401,
+    prrelid: 16500,
+    prqual: "(room_id > 0)",
+    prattrs: [1, 2],
+  };
+
+  const mockProfilesRel: PgPublicationRel = {
+    oid: 9502,
+    prpubid: 9401,
+    prrelid: 16600,
+    prqual: null,
+    prattrs: null,
+  };
+
+  const mockMessagesAnalyticsRel: PgPublicationRel = {
+    oid: 9503,
+    prpubid: 9402,
+    prrelid: 16500,
+    prqual: null,
+    prattrs: null,
+  };
+
+  beforeEach(() => {
+    client = new Client();
+    mockQuery = client.query as jest.Mock;
+    mockQuery.mockReset();
+  });
+
+  describe("publicationRelQueries", () => {
+    it("decodes row filters and column lists", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockMessagesRel, mockProfilesRel] });
+
+      const result = await publicationRelQueries.query(client);
+
+      expect(result).toEqual([mockMessagesRel, mockProfilesRel]);
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("FROM pg_catalog.pg_publication_rel pr");
+      expect(query).toContain("pg_catalog.pg_get_expr(pr.prqual, pr.prrelid) AS prqual");
+      expect(query).toContain("pr.prattrs::int2[] AS prattrs");
+      expect(query).not.toContain("WHERE");
+    });
+
+    it("combines publication and relation filters", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockMessagesRel] });
+
+      await publicationRelQueries.query(client, {
+        publicationOids: [9401],
+        relationOids: [16500],
+      });
+
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("pr.prpubid = ANY($1)");
+      expect(query).toContain("pr.prrelid = ANY($2)");
+      expect(mockQuery.mock.calls[0][1]).toEqual([[9401], [16500]]);
+    });
+  });
+
+  describe("createPublicationRelLoaders", () => {
+    let loaders: ReturnType<typeof createPublicationRelLoaders>;
+
+    beforeEach(() => {
+      loaders = createPublicationRelLoaders(client);
+    });
+
+    it("groups publication tables by publication OID", async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [mockMessagesRel, mockProfilesRel, mockMessagesAnalyticsRel],
+      });
+
+      const [realtime, analytics] = await Promise.all([
+        loaders.publicationRelsByPublicationLoader.load(9401),
+        loaders.publicationRelsByPublicationLoader.load(9402),
+      ]);
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(mockQuery.mock.calls[0][1]).toEqual([[9401, 9402]]);
+      expect(realtime).toEqual([mockMessagesRel, mockProfilesRel]);
+      expect(analytics).toEqual([mockMessagesAnalyticsRel]);
+    });
+
+    it("groups publication tables by table OID", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockMessagesRel, mockMessagesAnalyticsRel] });
+
+      const [messages, unpublished] = await Promise.all([
+        loaders.publicationRelsByRelationLoader.load(16500),
+        loaders.publicationRelsByRelationLoader.load(16700),
+      ]);
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(messages).toEqual([mockMessagesRel, mockMessagesAnalyticsRel]);
+      expect(unpublished).toEqual([]);
+    });
+  });
+});
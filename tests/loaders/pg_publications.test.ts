@@ -0,0 +1,111 @@
+import { Client } from "pg";
+import { createPublicationLoaders, publicationQueries } from "../../src/loaders/pg_publications.js";
+import type { PgPublication } from "../../src/types.js";
+
+// Mock the pg Client
+jest.mock("pg", () => {
+  const mockQuery = jest.fn();
+  return {
+    Client: jest.fn().mockImplementation(() => ({
+      query: mockQuery,
+      connect: jest.fn(),
+      end: jest.fn(),
+    })),
+  };
+});
+
+describe("pg_publications loader", () => {
+  let client: Client;
+  let mockQuery: jest.Mock;
+
+  // Mock publication objects to use in tests
+  const mockRealtimePublication: PgPublication = {
+    oid: 9401,
+    pubname: "supabase_realtime",
+    pubowner: 10,
+    puballtables: false,
+    pubinsert: true,
+    pubupdate: true,
+    pubdelete: true,
+    pubtruncate: false,
+    pubviaroot: false,
+    pubschemas: [],
+  };
+
+  const mockSchemaPublication: PgPublication = {
+    oid: 9402,
+    pubname: "analytics",
+    pubowner: 10,
+    puballtables: false,
+    pubinsert: true,
+    pubupdate: true,
+    pubdelete: true,
+    pubtruncate: true,
+    pubviaroot: true,
+    pubschemas: [2200],
+  };
+
+  beforeEach(() => {
+    client = new Client();
+    mockQuery = client.query as jest.Mock;
+    mockQuery.mockReset();
+  });
+
+  describe("publicationQueries", () => {
+    it("queries all publications with their published schemas", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockSchemaPublication, mockRealtimePublication] });
+
+      const result = await publicationQueries.query(client);
+
+      expect(result).toEqual([mockSchemaPublication, mockRealtimePublication]);
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("FROM pg_catalog.pg_publication p");
+      expect(query).toContain("FROM pg_catalog.pg_publication_namespace pn");
+      expect(query).not.toContain("WHERE p.");
+      expect(mockQuery.mock.calls[0][1]).toEqual([]);
+    });
+
+    it("combines OID and name filters", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockRealtimePublication] });
+
+      await publicationQueries.query(client, { oids: [9401], names: ["supabase_realtime"] });
+
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("p.oid = ANY($1)");
+      expect(query).toContain("p.pubname = ANY($2)");
+      expect(mockQuery.mock.calls[0][1]).toEqual([[9401], ["supabase_realtime"]]);
+    });
+  });
+
+  describe("createPublicationLoaders", () => {
+    let loaders: ReturnType<typeof createPublicationLoaders>;
+
+    beforeEach(() => {
+      loaders = createPublicationLoaders(client);
+    });
+
+    it("batches publication lookups by OID", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockSchemaPublication, mockRealtimePublication] });
+
+      const [realtime, schemaPub, missing] = await Promise.all([
+        loaders.publicationLoader.load(9401),
+        loaders.publicationLoader.load(9402),
+        loaders.publicationLoader.load(9999),
+      ]);
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(mockQuery.mock.calls[0][1]).toEqual([[9401, 9402, 9999]]);
+      expect(realtime).toEqual(mockRealtimePublication);
+      expect(schemaPub).toEqual(mockSchemaPublication);
+      expect(missing).toBeNull();
+    });
+
+    it("filters all publications with the provided function", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockSchemaPublication, mockRealtimePublication] });
+
+      const result = await loaders.getAllPublications((pub) => pub.pubtruncate);
+
+      expect(result).toEqual([mockSchemaPublication]);
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { Client } from "pg";
+import { createRangeLoaders, rangeQueries } from "../../src/loaders/pg_ranges.js";
+import type { PgRange } from "../../src/types.js";
+
+// Mock the pg Client
+jest.mock("pg", () => {
+  const mockQuery = jest.fn();
+  return {
+    Client: jest.fn().mockImplementation(() => ({
+      query: mockQuery,
+      connect: jest.fn(),
+      end: jest.fn(),
+    })),
+  };
+});
+
+describe("pg_ranges loader", () => {
+  let client: Client;
+  let mockQuery: jest.Mock;
+
+  // Mock ranges to use in tests
+  const mockInt4Range: PgRange = {
+    rngtypid: 3904,
+    rngsubtype: 23,
+    rngmultitypid: 4451,
+    rngcollation: 0,
+    collname: null,
+    rngcanonical: 3914,
+    rngsubdiff: 3922,
+  };
+
+  const mockTextRange: PgRange = {
+    rngtypid: 9001,
+    rngsubtype: 25,
+    rngmultitypid: 9002,
+    rngcollation: 950,
+    collname: "C",
+    rngcanonical: 0,
+    rngsubdiff: 0,
+  };
+
+  beforeEach(() => {
+    client = new Client();
+    mockQuery = client.query as jest.Mock;
+    mockQuery.mockReset();
+  });
+
+  describe("rangeQueries", () => {
+    it("excludes system schemas by default", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockTextRange] });
+
+      const result = await rangeQueries.query(client);
+
+      expect(result).toEqual([mockTextRange]);
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("FROM pg_catalog.pg_range r");
+      expect(query).toContain("LEFT JOIN pg_catalog.pg_collation coll");
+      expect(query).toContain("n.nspname NOT IN");
+      expect(mockQuery.mock.calls[0][1]).toEqual([]);
+    });
+
+    it("filters by range and multirange type OIDs", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockInt4Range] });
+
+      await rangeQueries.query(client, {
+        rangeTypeOids: [3904],
+        multirangeTypeOids: [4451],
+        includeSystemSchemas: true,
+      });
+
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("r.rngtypid = ANY($1)");
+      expect(query).toContain("r.rngmultitypid = ANY($2)");
+      expect(query).not.toContain("n.nspname NOT IN");
+      expect(mockQuery.mock.calls[0][1]).toEqual([[3904], [4451]]);
+    });
+  });
+
+  describe("createRangeLoaders", () => {
+    let loaders: ReturnType<typeof createRangeLoaders>;
+
+    beforeEach(() => {
+      loaders = createRangeLoaders(client);
+    });
+
+    it("batches range lookups by range type OID", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockInt4Range, mockTextRange] });
+
+      const [int4range, textrange, none] = await Promise.all([
+        loaders.rangeLoader.load(3904),
+        loaders.rangeLoader.load(9001),
+        loaders.rangeLoader.load(23),
+      ]);
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(mockQuery.mock.calls[0][1]).toEqual([[3904, 9001, 23]]);
+      expect(int4range).toEqual(mockInt4Range);
+      expect(textrange).toEqual(mockTextRange);
+      expect(none).toBeNull();
+    });
+
+    it("batches range lookups by multirange type OID", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockTextRange] });
+
+      const [textrange, none] = await Promise.all([
+        loaders.rangeByMultirangeLoader.load(9002),
+        loaders.rangeByMultirangeLoader.load(9001),
+      ]);
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(textrange).toEqual(mockTextRange);
+      expect(none).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { Client } from "pg";
+import {
+  createRelationStorageLoaders,
+  relationStorageQueries,
+} from "../../src/loaders/pg_relation_storage.js";
+import type { PgRelationStorage } from "../../src/types.js";
+
+// Mock the pg Client
+jest.mock("pg", () => {
+  const mockQuery = jest.fn();
+  return {
+    Client: jest.fn().mockImplementation(() => ({
+      query: mockQuery,
+      connect: jest.fn(),
+      end: jest.fn(),
+    })),
+  };
+});
+
+describe("pg_relation_storage loader", () => {
+  let client: Client;
+  let mockQuery: jest.Mock;
+
+  // Mock storage details to use in tests
+  const mockEvents: PgRelationStorage = {
+    relid: 9001,
+    relpersistence: "u",
+    reloptions: ["fillfactor=70"],
+    spcname: null,
+    reltuples: 1000,
+    totalsize: "204800",
+    tablesize: "163840",
+    indexsize: "40960",
+  };
+
+  const mockEventsPkey: PgRelationStorage = {
+    relid: 9002,
+    relpersistence: "u",
+    reloptions: null,
+    spcname: "fast_disk",
+    reltuples: 1000,
+    totalsize: "40960",
+    tablesize: "40960",
+    indexsize: "0",
+  };
+
+  beforeEach(() => {
+    client = new Client();
+    mockQuery = client.query as jest.Mock;
+    mockQuery.mockReset();
+  });
+
+  describe("relationStorageQueries", () => {
+    it("computes sizes for tables, materialized views and indexes", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockEvents, mockEventsPkey] });
+
+      const result = await relationStorageQueries.query(client);
+
+      expect(result).toEqual([mockEvents, mockEventsPkey]);
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("c.relkind IN ('r', 'p', 'm', 'i', 'I')");
+      expect(query).toContain("pg_catalog.pg_total_relation_size(c.oid) AS totalsize");
+      expect(query).toContain("LEFT JOIN pg_catalog.pg_tablespace ts");
+      expect(query).toContain("n.nspname NOT IN");
+      expect(mockQuery.mock.calls[0][1]).toEqual([]);
+    });
+
+    it("filters by relation OIDs", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockEvents] });
+
+      await relationStorageQueries.query(client, {
+        relationOids: [9001],
+        includeSystemSchemas: true,
+      });
+
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("c.oid = ANY($1)");
+      expect(query).not.toContain("n.nspname NOT IN");
+      expect(mockQuery.mock.calls[0][1]).toEqual([[9001]]);
+    });
+  });
+
+  describe("createRelationStorageLoaders", () => {
+    it("batches storage lookups by relation OID", async () => {
+      const loaders = createRelationStorageLoaders(client);
+      mockQuery.mockResolvedValueOnce({ rows: [mockEvents, mockEventsPkey] });
+
+      const [events, pkey, none] = await Promise.all([
+        loaders.relationStorageLoader.load(9001),
+        loaders.relationStorageLoader.load(9002),
+        loaders.relationStorageLoader.load(9003),
+      ]);
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(mockQuery.mock.calls[0][1]).toEqual([[9001, 9002, 9003]]);
+      expect(events).toEqual(mockEvents);
+      expect(pkey).toEqual(mockEventsPkey);
+      expect(none).toBeNull();
+    });
+  });
+});
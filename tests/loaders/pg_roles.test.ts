@@ -23,18 +23,42 @@ describe("pg_roles loader", () => {
     oid: 1001,
     rolname: "admin",
     rolsuper: true,
+    rolinherit: true,
+    rolcreaterole: true,
+    rolcreatedb: true,
+    rolcanlogin: true,
+    rolreplication: false,
+    rolbypassrls: true,
+    rolconnlimit: -1,
+    rolvaliduntil: null,
   };
 
   const mockRole2: PgRole = {
     oid: 1002,
     rolname: "user",
     rolsuper: false,
+    rolinherit: true,
+    rolcreaterole: false,
+    rolcreatedb: false,
+    rolcanlogin: true,
+    rolreplication: false,
+    rolbypassrls: false,
+    rolconnlimit: -1,
+    rolvaliduntil: null,
   };
 
   const mockRole3: PgRole = {
     oid: 1003,
     rolname: "app_user",
     rolsuper: false,
+    rolinherit: true,
+    rolcreaterole: false,
+    rolcreatedb: false,
+    rolcanlogin: false,
+    rolreplication: false,
+    rolbypassrls: false,
+    rolconnlimit: -1,
+    rolvaliduntil: null,
   };
 
   beforeEach(() => {
@@ -0,0 +1,129 @@
+import { Client } from "pg";
+import { createRuleLoaders, ruleQueries } from "../../src/loaders/pg_rules.js";
+import type { PgRule } from "../../src/types.js";
+
+// Mock the pg Client
+jest.mock("pg", () => {
+  const mockQuery = jest.fn();
+  return {
+    Client: jest.fn().mockImplementation(() => ({
+      query: mockQuery,
+      connect: jest.fn(),
+      end: jest.fn(),
+    })),
+  };
+});
+
+describe("pg_rules loader", () => {
+  let client: Client;
+  let mockQuery: jest.Mock;
+
+  // Mock rule objects to use in tests
+  const mockLogRule: PgRule = {
+    oid: 10001,
+    rulename: "log_insert",
+    ev_class: 16800,
+    ev_type: "3",
+    ev_enabled: "O",
+    is_instead: false,
+    ruledef: "CREATE RULE log_insert AS ON INSERT TO events DO  INSERT INTO events_log ...",
+  };
+
+  const mockNoDeleteRule: PgRule = {
+    oid: 10002,
+    rulename: "no_delete",
+    ev_class: 16800,
+    ev_type: "4",
+    ev_enabled: "D",
+    is_instead: true,
+    ruledef: "CREATE RULE no_delete AS ON DELETE TO events DO INSTEAD NOTHING;",
+  };
+
+  const mockOtherTableRule: PgRule = {
+    oid: 10003,
+    rulename: "redirect_update",
+    ev_class: 16900,
+    ev_type: "2",
+    ev_enabled: "O",
+    is_instead: true,
+    ruledef: "CREATE RULE redirect_update AS ON UPDATE TO legacy DO INSTEAD ...",
+  };
+
+  beforeEach(() => {
+    client = new Client();
+    mockQuery = client.query as jest.Mock;
+    mockQuery.mockReset();
+  });
+
+  describe("ruleQueries", () => {
+    it("excludes view _RETURN rules and system schemas by default", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockLogRule, mockNoDeleteRule] });
+
+      const result = await ruleQueries.query(client);
+
+      expect(result).toEqual([mockLogRule, mockNoDeleteRule]);
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("FROM pg_catalog.pg_rewrite r");
+      expect(query).toContain("r.rulename <> '_RETURN'");
+      expect(query).toContain("pg_catalog.pg_get_ruledef(r.oid, true) AS ruledef");
+      expect(query).toContain(
+        "n.nspname NOT IN ('pg_toast', 'pg_catalog', 'information_schema', 'pg_temp')"
+      );
+    });
+
+    it("combines OID and relation filters", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockLogRule] });
+
+      await ruleQueries.query(client, {
+        oids: [10001],
+        relationOids: [16800],
+        includeSystemSchemas: true,
+      });
+
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("r.oid = ANY($1)");
+      expect(query).toContain("r.ev_class = ANY($2)");
+      expect(query).not.toContain("NOT IN");
+      expect(mockQuery.mock.calls[0][1]).toEqual([[10001], [16800]]);
+    });
+  });
+
+  describe("createRuleLoaders", () => {
+    let loaders: ReturnType<typeof createRuleLoaders>;
+
+    beforeEach(() => {
+      loaders = createRuleLoaders(client);
+    });
+
+    it("batches rule lookups by OID", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockLogRule, mockNoDeleteRule] });
+
+      const [noDelete, missing] = await Promise.all([
+        loaders.ruleLoader.load(10002),
+        loaders.ruleLoader.load(99999),
+      ]);
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(mockQuery.mock.calls[0][1]).toEqual([[10002, 99999]]);
+      expect(noDelete).toEqual(mockNoDeleteRule);
+      expect(missing).toBeNull();
+    });
+
+    it("groups rules by relation OID", async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [mockLogRule, mockNoDeleteRule, mockOtherTableRule],
+      });
+
+      const [events, legacy, none] = await Promise.all([
+        loaders.rulesByRelationLoader.load(16800),
+        loaders.rulesByRelationLoader.load(16900),
+        loaders.rulesByRelationLoader.load(17000),
+      ]);
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(events).toEqual([mockLogRule, mockNoDeleteRule]);
+      expect(legacy).toEqual([mockOtherTableRule]);
+      expect(none).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { Client } from "pg";
+import { createSequenceLoaders, sequenceQueries } from "../../src/loaders/pg_sequences.js";
+import type { PgSequence } from "../../src/types.js";
+
+// Mock the pg Client
+jest.mock("pg", () => {
+  const mockQuery = jest.fn();
+  return {
+    Client: jest.fn().mockImplementation(() => ({
+      query: mockQuery,
+      connect: jest.fn(),
+      end: jest.fn(),
+    })),
+  };
+});
+
+describe("pg_sequences loader", () => {
+  let client: Client;
+  let mockQuery: jest.Mock;
+
+  // Mock sequence objects to use in tests
+  const mockSerialSequence: PgSequence = {
+    seqrelid: 7001,
+    seqtypid: 23,
+    seqstart: "1",
+    seqincrement: "1",
+    seqmax: "2147483647",
+    seqmin: "1",
+    seqcache: "1",
+    seqcycle: false,
+    ownerrelid: 16384,
+    ownerattnum: 1,
+  };
+
+  const mockIdentitySequence: PgSequence = {
+    seqrelid: 7002,
+    seqtypid: 20,
+    seqstart: "100",
+    seqincrement: "10",
+    seqmax: "9223372036854775807",
+    seqmin: "1",
+    seqcache: "20",
+    seqcycle: true,
+    ownerrelid: 16384,
+    ownerattnum: 3,
+  };
+
+  const mockStandaloneSequence: PgSequence = {
+    seqrelid: 7003,
+    seqtypid: 20,
+    seqstart: "1",
+    seqincrement: "-1",
+    seqmax: "-1",
+    seqmin: "-9223372036854775808",
+    seqcache: "1",
+    seqcycle: false,
+    ownerrelid: null,
+    ownerattnum: null,
+  };
+
+  beforeEach(() => {
+    client = new Client();
+    mockQuery = client.query as jest.Mock;
+    mockQuery.mockReset();
+  });
+
+  describe("sequenceQueries", () => {
+    describe("query", () => {
+      it("excludes system schemas by default and joins ownership from pg_depend", async () => {
+        mockQuery.mockResolvedValueOnce({
+          rows: [mockSerialSequence, mockIdentitySequence, mockStandaloneSequence],
+        });
+
+        const result = await sequenceQueries.query(client);
+
+        expect(result).toHaveLength(3);
+        expect(result[2]).toEqual(mockStandaloneSequence);
+
+        const query = mockQuery.mock.calls[0][0];
+        expect(query).toContain("FROM pg_catalog.pg_sequence s");
+        expect(query).toContain("LEFT JOIN pg_catalog.pg_depend d");
+        expect(query).toContain("d.deptype IN ('a', 'i')");
+        expect(query).toContain(
+          "n.nspname NOT IN ('pg_toast', 'pg_catalog', 'information_schema', 'pg_temp')"
+        );
+        expect(mockQuery.mock.calls[0][1]).toEqual([]);
+      });
+
+      it("combines multiple filter conditions", async () => {
+        mockQuery.mockResolvedValueOnce({
+          rows: [mockIdentitySequence],
+        });
+
+        await sequenceQueries.query(client, {
+          sequenceOids: [7002],
+          ownerRelationOids: [16384],
+          includeSystemSchemas: true,
+        });
+
+        const query = mockQuery.mock.calls[0][0];
+        expect(query).toContain("s.seqrelid = ANY($1)");
+        expect(query).toContain("d.refobjid = ANY($2)");
+        expect(query).not.toContain("NOT IN");
+        expect(mockQuery.mock.calls[0][1]).toEqual([[7002], [16384]]);
+      });
+    });
+
+    describe("byOid", () => {
+      it("returns a sequence when found", async () => {
+        mockQuery.mockResolvedValueOnce({
+          rows: [mockSerialSequence],
+        });
+
+        const result = await sequenceQueries.byOid(client, 7001);
+
+        expect(result).toEqual(mockSerialSequence);
+      });
+
+      it("returns null when sequence not found", async () => {
+        mockQuery.mockResolvedValueOnce({
+          rows: [],
+        });
+
+        const result = await sequenceQueries.byOid(client, 9999);
+
+        expect(result).toBeNull();
+      });
+    });
+  });
+
+  describe("createSequenceLoaders", () => {
+    describe("sequenceLoader", () => {
+      it("loads multiple sequences by OID in a single query", async () => {
+        mockQuery.mockResolvedValueOnce({
+          rows: [mockSerialSequence, mockStandaloneSequence],
+        });
+
+        const { sequenceLoader } = createSequenceLoaders(client);
+        const results = await Promise.all([
+          sequenceLoader.load(7001),
+          sequenceLoader.load(7003),
+          sequenceLoader.load(9999),
+        ]);
+
+        expect(results[0]).toEqual(mockSerialSequence);
+        expect(results[1]).toEqual(mockStandaloneSequence);
+        expect(results[2]).toBeNull();
+        expect(mockQuery).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe("sequencesByOwnerRelationLoader", () => {
+      it("groups owned sequences by table in a single query", async () => {
+        mockQuery.mockResolvedValueOnce({
+          rows: [mockSerialSequence, mockIdentitySequence],
+        });
+
+        const { sequencesByOwnerRelationLoader } = createSequenceLoaders(client);
+        const results = await Promise.all([
+          sequencesByOwnerRelationLoader.load(16384),
+          sequencesByOwnerRelationLoader.load(99999),
+        ]);
+
+        expect(results[0]).toEqual([mockSerialSequence, mockIdentitySequence]);
+        expect(results[1]).toEqual([]);
+        expect(mockQuery).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe("getAllSequences", () => {
+      it("filters sequences with custom filter function", async () => {
+        mockQuery.mockResolvedValueOnce({
+          rows: [mockSerialSequence, mockIdentitySequence, mockStandaloneSequence],
+        });
+
+        const { getAllSequences } = createSequenceLoaders(client);
+        const result = await getAllSequences((seq) => seq.ownerrelid === null);
+
+        expect(result).toEqual([mockStandaloneSequence]);
+      });
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { Client } from "pg";
+import {
+  createFunctionStatisticsLoaders,
+  functionStatisticsQueries,
+} from "../../src/loaders/pg_stat_user_functions.js";
+import type { PgStatUserFunction } from "../../src/types.js";
+
+// Mock the pg Client
+jest.mock("pg", () => {
+  const mockQuery = jest.fn();
+  return {
+    Client: jest.fn().mockImplementation(() => ({
+      query: mockQuery,
+      connect: jest.fn(),
+      end: jest.fn(),
+    })),
+  };
+});
+
+describe("pg_stat_user_functions loader", () => {
+  let client: Client;
+  let mockQuery: jest.Mock;
+
+  // Mock statistics to use in tests
+  const mockFirst: PgStatUserFunction = {
+    funcid: 9001,
+    calls: "7",
+    total_time: 12.5,
+    self_time: 10.25,
+  };
+
+  const mockSecond: PgStatUserFunction = {
+    funcid: 9002,
+    calls: "1",
+    total_time: 0.5,
+    self_time: 0.5,
+  };
+
+  beforeEach(() => {
+    client = new Client();
+    mockQuery = client.query as jest.Mock;
+    mockQuery.mockReset();
+  });
+
+  describe("functionStatisticsQueries", () => {
+    it("queries pg_stat_user_functions outside system schemas by default", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockFirst, mockSecond] });
+
+      const result = await functionStatisticsQueries.query(client);
+
+      expect(result).toEqual([mockFirst, mockSecond]);
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("FROM pg_catalog.pg_stat_user_functions s");
+      expect(query).toContain("s.schemaname NOT IN");
+      expect(mockQuery.mock.calls[0][1]).toEqual([]);
+    });
+
+    it("filters by OIDs", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockFirst] });
+
+      await functionStatisticsQueries.query(client, {
+        functionOids: [9001],
+        includeSystemSchemas: true,
+      });
+
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("s.funcid = ANY($1)");
+      expect(query).not.toContain("s.schemaname NOT IN");
+      expect(mockQuery.mock.calls[0][1]).toEqual([[9001]]);
+    });
+  });
+
+  describe("createFunctionStatisticsLoaders", () => {
+    it("batches statistics lookups by OID", async () => {
+      const loaders = createFunctionStatisticsLoaders(client);
+      mockQuery.mockResolvedValueOnce({ rows: [mockFirst, mockSecond] });
+
+      const [first, second, none] = await Promise.all([
+        loaders.functionStatisticsLoader.load(9001),
+        loaders.functionStatisticsLoader.load(9002),
+        loaders.functionStatisticsLoader.load(9003),
+      ]);
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(mockQuery.mock.calls[0][1]).toEqual([[9001, 9002, 9003]]);
+      expect(first).toEqual(mockFirst);
+      expect(second).toEqual(mockSecond);
+      expect(none).toBeNull();
+    });
+  });
+});
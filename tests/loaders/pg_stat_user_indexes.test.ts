@@ -0,0 +1,88 @@
+import { Client } from "pg";
+import {
+  createIndexStatisticsLoaders,
+  indexStatisticsQueries,
+} from "../../src/loaders/pg_stat_user_indexes.js";
+import type { PgStatUserIndex } from "../../src/types.js";
+
+// Mock the pg Client
+jest.mock("pg", () => {
+  const mockQuery = jest.fn();
+  return {
+    Client: jest.fn().mockImplementation(() => ({
+      query: mockQuery,
+      connect: jest.fn(),
+      end: jest.fn(),
+    })),
+  };
+});
+
+describe("pg_stat_user_indexes loader", () => {
+  let client: Client;
+  let mockQuery: jest.Mock;
+
+  // Mock statistics to use in tests
+  const mockFirst: PgStatUserIndex = {
+    indexrelid: 9001,
+    idx_scan: "40",
+    idx_tup_read: "55",
+    idx_tup_fetch: "50",
+  };
+
+  const mockSecond: PgStatUserIndex = {
+    indexrelid: 9002,
+    idx_scan: "0",
+    idx_tup_read: "0",
+    idx_tup_fetch: "0",
+  };
+
+  beforeEach(() => {
+    client = new Client();
+    mockQuery = client.query as jest.Mock;
+    mockQuery.mockReset();
+  });
+
+  describe("indexStatisticsQueries", () => {
+    it("queries pg_stat_user_indexes outside system schemas by default", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockFirst, mockSecond] });
+
+      const result = await indexStatisticsQueries.query(client);
+
+      expect(result).toEqual([mockFirst, mockSecond]);
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("FROM pg_catalog.pg_stat_user_indexes s");
+      expect(query).toContain("s.schemaname NOT IN");
+      expect(mockQuery.mock.calls[0][1]).toEqual([]);
+    });
+
+    it("filters by OIDs", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockFirst] });
+
+      await indexStatisticsQueries.query(client, { indexOids: [9001], includeSystemSchemas: true });
+
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("s.indexrelid = ANY($1)");
+      expect(query).not.toContain("s.schemaname NOT IN");
+      expect(mockQuery.mock.calls[0][1]).toEqual([[9001]]);
+    });
+  });
+
+  describe("createIndexStatisticsLoaders", () => {
+    it("batches statistics lookups by OID", async () => {
+      const loaders = createIndexStatisticsLoaders(client);
+      mockQuery.mockResolvedValueOnce({ rows: [mockFirst, mockSecond] });
+
+      const [first, second, none] = await Promise.all([
+        loaders.indexStatisticsLoader.load(9001),
+        loaders.indexStatisticsLoader.load(9002),
+        loaders.indexStatisticsLoader.load(9003),
+      ]);
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(mockQuery.mock.calls[0][1]).toEqual([[9001, 9002, 9003]]);
+      expect(first).toEqual(mockFirst);
+      expect(second).toEqual(mockSecond);
+      expect(none).toBeNull();
+    });
+  });
+});
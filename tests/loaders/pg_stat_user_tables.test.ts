@@ -0,0 +1,124 @@
+import { Client } from "pg";
+import {
+  createTableStatisticsLoaders,
+  tableStatisticsQueries,
+} from "../../src/loaders/pg_stat_user_tables.js";
+import type { PgStatUserTable } from "../../src/types.js";
+
+// Mock the pg Client
+jest.mock("pg", () => {
+  const mockQuery = jest.fn();
+  return {
+    Client: jest.fn().mockImplementation(() => ({
+      query: mockQuery,
+      connect: jest.fn(),
+      end: jest.fn(),
+    })),
+  };
+});
+
+describe("pg_stat_user_tables loader", () => {
+  let client: Client;
+  let mockQuery: jest.Mock;
+
+  // Mock statistics to use in tests
+  const mockFirst: PgStatUserTable = {
+    relid: 9001,
+    seq_scan: "12",
+    seq_tup_read: "1200",
+    idx_scan: "40",
+    idx_tup_fetch: "40",
+    n_tup_ins: "100",
+    n_tup_upd: "20",
+    n_tup_del: "5",
+    n_tup_hot_upd: "10",
+    n_live_tup: "95",
+    n_dead_tup: "25",
+    n_mod_since_analyze: "25",
+    last_vacuum: "2024-05-01T09:00:00.000000+00:00",
+    last_autovacuum: null,
+    last_analyze: null,
+    last_autoanalyze: "2024-05-01T10:00:00.000000+00:00",
+    vacuum_count: "1",
+    autovacuum_count: "0",
+    analyze_count: "0",
+    autoanalyze_count: "1",
+  };
+
+  const mockSecond: PgStatUserTable = {
+    relid: 9002,
+    seq_scan: "3",
+    seq_tup_read: "1200",
+    idx_scan: null,
+    idx_tup_fetch: null,
+    n_tup_ins: "100",
+    n_tup_upd: "20",
+    n_tup_del: "5",
+    n_tup_hot_upd: "10",
+    n_live_tup: "95",
+    n_dead_tup: "25",
+    n_mod_since_analyze: "25",
+    last_vacuum: null,
+    last_autovacuum: null,
+    last_analyze: null,
+    last_autoanalyze: "2024-05-01T10:00:00.000000+00:00",
+    vacuum_count: "0",
+    autovacuum_count: "0",
+    analyze_count: "0",
+    autoanalyze_count: "1",
+  };
+
+  beforeEach(() => {
+    client = new Client();
+    mockQuery = client.query as jest.Mock;
+    mockQuery.mockReset();
+  });
+
+  describe("tableStatisticsQueries", () => {
+    it("queries pg_stat_user_tables outside system schemas by default", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockFirst, mockSecond] });
+
+      const result = await tableStatisticsQueries.query(client);
+
+      expect(result).toEqual([mockFirst, mockSecond]);
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("FROM pg_catalog.pg_stat_user_tables s");
+      expect(query).toContain("to_json(s.last_vacuum) #>> '{}' AS last_vacuum");
+      expect(query).toContain("s.schemaname NOT IN");
+      expect(mockQuery.mock.calls[0][1]).toEqual([]);
+    });
+
+    it("filters by OIDs", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockFirst] });
+
+      await tableStatisticsQueries.query(client, {
+        relationOids: [9001],
+        includeSystemSchemas: true,
+      });
+
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("s.relid = ANY($1)");
+      expect(query).not.toContain("s.schemaname NOT IN");
+      expect(mockQuery.mock.calls[0][1]).toEqual([[9001]]);
+    });
+  });
+
+  describe("createTableStatisticsLoaders", () => {
+    it("batches statistics lookups by OID", async () => {
+      const loaders = createTableStatisticsLoaders(client);
+      mockQuery.mockResolvedValueOnce({ rows: [mockFirst, mockSecond] });
+
+      const [first, second, none] = await Promise.all([
+        loaders.tableStatisticsLoader.load(9001),
+        loaders.tableStatisticsLoader.load(9002),
+        loaders.tableStatisticsLoader.load(9003),
+      ]);
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(mockQuery.mock.calls[0][1]).toEqual([[9001, 9002, 9003]]);
+      expect(first).toEqual(mockFirst);
+      expect(second).toEqual(mockSecond);
+      expect(none).toBeNull();
+    });
+  });
+});
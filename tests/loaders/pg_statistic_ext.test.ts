@@ -0,0 +1,140 @@
+import { Client } from "pg";
+import {
+  statisticExtQueries,
+  createStatisticExtLoaders,
+} from "../../src/loaders/pg_statistic_ext.js";
+import type { PgStatisticExt } from "../../src/types.js";
+
+// Mock the pg Client
+jest.mock("pg", () => {
+  const mockQuery = jest.fn();
+  return {
+    Client: jest.fn().mockImplementation(() => ({
+      query: mockQuery,
+      connect: jest.fn(),
+      end: jest.fn(),
+    })),
+  };
+});
+
+describe("pg_statistic_ext loader", () => {
+  let client: Client;
+  let mockQuery: jest.Mock;
+
+  // Mock statistics objects to use in tests
+  const mockZipCity: PgStatisticExt = {
+    oid: 7001,
+    stxname: "addresses_zip_city",
+    stxrelid: 9001,
+    stxnamespace: 2200,
+    stxowner: 10,
+    stxkind: ["d", "f"],
+    stxkeys: [2, 3],
+    stxexprs: [],
+    stxstattarget: null,
+    stxdef:
+      "CREATE STATISTICS public.addresses_zip_city (ndistinct, dependencies) ON zip, city FROM public.addresses",
+  };
+
+  const mockLowerCity: PgStatisticExt = {
+    oid: 7002,
+    stxname: "addresses_lower_city",
+    stxrelid: 9001,
+    stxnamespace: 2200,
+    stxowner: 10,
+    stxkind: ["e"],
+    stxkeys: [],
+    stxexprs: ["lower(city)"],
+    stxstattarget: 500,
+    stxdef: "CREATE STATISTICS public.addresses_lower_city ON lower(city) FROM public.addresses",
+  };
+
+  const mockOrders: PgStatisticExt = {
+    ...mockZipCity,
+    oid: 7003,
+    stxname: "orders_stats",
+    stxrelid: 9002,
+    stxnamespace: 16384,
+  };
+
+  beforeEach(() => {
+    client = new Client();
+    mockQuery = client.query as jest.Mock;
+    mockQuery.mockReset();
+  });
+
+  describe("statisticExtQueries", () => {
+    it("excludes system schemas by default", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockZipCity] });
+
+      const result = await statisticExtQueries.query(client);
+
+      expect(result).toEqual([mockZipCity]);
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("FROM pg_catalog.pg_statistic_ext s");
+      expect(query).toContain("pg_get_statisticsobjdef_expressions(s.oid)");
+      expect(query).toContain("n.nspname NOT IN");
+      expect(mockQuery.mock.calls[0][1]).toEqual([]);
+    });
+
+    it("combines OID, relation and namespace filters", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await statisticExtQueries.query(client, {
+        oids: [7001],
+        relationOids: [9001],
+        namespaceOids: [2200],
+        includeSystemSchemas: true,
+      });
+
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("s.oid = ANY($1)");
+      expect(query).toContain("s.stxrelid = ANY($2)");
+      expect(query).toContain("s.stxnamespace = ANY($3)");
+      expect(query).not.toContain("n.nspname NOT IN");
+      expect(mockQuery.mock.calls[0][1]).toEqual([[7001], [9001], [2200]]);
+    });
+  });
+
+  describe("createStatisticExtLoaders", () => {
+    it("loads statistics objects by OID in request order", async () => {
+      const loaders = createStatisticExtLoaders(client);
+      mockQuery.mockResolvedValueOnce({ rows: [mockZipCity, mockLowerCity] });
+
+      const result = await loaders.statisticExtLoader.loadMany([7002, 7999, 7001]);
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(result).toEqual([mockLowerCity, null, mockZipCity]);
+    });
+
+    it("groups statistics objects by table OID", async () => {
+      const loaders = createStatisticExtLoaders(client);
+      mockQuery.mockResolvedValueOnce({ rows: [mockZipCity, mockLowerCity, mockOrders] });
+
+      const [addresses, orders, none] = await Promise.all([
+        loaders.statisticExtByRelationLoader.load(9001),
+        loaders.statisticExtByRelationLoader.load(9002),
+        loaders.statisticExtByRelationLoader.load(9003),
+      ]);
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(mockQuery.mock.calls[0][1]).toEqual([[9001, 9002, 9003]]);
+      expect(addresses).toEqual([mockZipCity, mockLowerCity]);
+      expect(orders).toEqual([mockOrders]);
+      expect(none).toEqual([]);
+    });
+
+    it("groups statistics objects by namespace OID", async () => {
+      const loaders = createStatisticExtLoaders(client);
+      mockQuery.mockResolvedValueOnce({ rows: [mockZipCity, mockLowerCity, mockOrders] });
+
+      const [pub, other] = await Promise.all([
+        loaders.statisticExtByNamespaceLoader.load(2200),
+        loaders.statisticExtByNamespaceLoader.load(16384),
+      ]);
+
+      expect(pub).toEqual([mockZipCity, mockLowerCity]);
+      expect(other).toEqual([mockOrders]);
+    });
+  });
+});
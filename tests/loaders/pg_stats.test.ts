@@ -0,0 +1,111 @@
+import { Client } from "pg";
+import {
+  columnStatisticsQueries,
+  createColumnStatisticsLoaders,
+} from "../../src/loaders/pg_stats.js";
+import type { PgColumnStatistics } from "../../src/types.js";
+
+// Mock the pg Client
+jest.mock("pg", () => {
+  const mockQuery = jest.fn();
+  return {
+    Client: jest.fn().mockImplementation(() => ({
+      query: mockQuery,
+      connect: jest.fn(),
+      end: jest.fn(),
+    })),
+  };
+});
+
+describe("pg_stats loader", () => {
+  let client: Client;
+  let mockQuery: jest.Mock;
+
+  // Mock column statistics to use in tests
+  const mockIdStats: PgColumnStatistics = {
+    attrelid: 9001,
+    attnum: 1,
+    null_frac: 0,
+    avg_width: 4,
+    n_distinct: -1,
+    correlation: 1,
+    most_common_vals: null,
+    most_common_freqs: null,
+    histogram_bounds: ["1", "200", "400"],
+  };
+
+  const mockCountryStats: PgColumnStatistics = {
+    attrelid: 9001,
+    attnum: 2,
+    null_frac: 0,
+    avg_width: 3,
+    n_distinct: 2,
+    correlation: 0.6,
+    most_common_vals: ["DE", "FR"],
+    most_common_freqs: [0.75, 0.25],
+    histogram_bounds: null,
+  };
+
+  const mockOtherTableStats: PgColumnStatistics = {
+    ...mockIdStats,
+    attrelid: 9002,
+  };
+
+  beforeEach(() => {
+    client = new Client();
+    mockQuery = client.query as jest.Mock;
+    mockQuery.mockReset();
+  });
+
+  describe("columnStatisticsQueries", () => {
+    it("checks column privileges before returning sample values", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockIdStats, mockCountryStats] });
+
+      const result = await columnStatisticsQueries.query(client);
+
+      expect(result).toEqual([mockIdStats, mockCountryStats]);
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("FROM pg_catalog.pg_stats s");
+      expect(query).toContain("SELECT DISTINCT ON (a.attrelid, a.attnum)");
+      expect(query).toContain("ORDER BY a.attrelid, a.attnum, s.inherited");
+      expect(query.match(/has_column_privilege\(c\.oid, a\.attnum, 'SELECT'\)/g)).toHaveLength(3);
+      expect(query).toContain("n.nspname NOT IN");
+      expect(mockQuery.mock.calls[0][1]).toEqual([]);
+    });
+
+    it("filters by relation OIDs", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockIdStats] });
+
+      await columnStatisticsQueries.query(client, {
+        relationOids: [9001],
+        includeSystemSchemas: true,
+      });
+
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("c.oid = ANY($1)");
+      expect(query).not.toContain("n.nspname NOT IN");
+      expect(mockQuery.mock.calls[0][1]).toEqual([[9001]]);
+    });
+  });
+
+  describe("createColumnStatisticsLoaders", () => {
+    it("groups column statistics by relation OID", async () => {
+      const loaders = createColumnStatisticsLoaders(client);
+      mockQuery.mockResolvedValueOnce({
+        rows: [mockIdStats, mockCountryStats, mockOtherTableStats],
+      });
+
+      const [customers, other, none] = await Promise.all([
+        loaders.columnStatisticsByRelationLoader.load(9001),
+        loaders.columnStatisticsByRelationLoader.load(9002),
+        loaders.columnStatisticsByRelationLoader.load(9003),
+      ]);
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(mockQuery.mock.calls[0][1]).toEqual([[9001, 9002, 9003]]);
+      expect(customers).toEqual([mockIdStats, mockCountryStats]);
+      expect(other).toEqual([mockOtherTableStats]);
+      expect(none).toEqual([]);
+    });
+  });
+});
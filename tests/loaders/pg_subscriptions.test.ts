@@ -0,0 +1,90 @@
+import { Client } from "pg";
+import {
+  createSubscriptionLoaders,
+  subscriptionQueries,
+} from "../../src/loaders/pg_subscriptions.js";
+import type { PgSubscription } from "../../src/types.js";
+
+// Mock the pg Client
+jest.mock("pg", () => {
+  const mockQuery = jest.fn();
+  return {
+    Client: jest.fn().mockImplementation(() => ({
+      query: mockQuery,
+      connect: jest.fn(),
+      end: jest.fn(),
+    })),
+  };
+});
+
+describe("pg_subscriptions loader", () => {
+  let client: Client;
+  let mockQuery: jest.Mock;
+
+  // Mock subscription objects to use in tests
+  const mockSubscription: PgSubscription = {
+    oid: 9601,
+    subname: "from_primary",
+    subowner: 10,
+    subenabled: true,
+    subconninfo: "host=primary password=secret",
+    subslotname: "from_primary",
+    subpublications: ["supabase_realtime"],
+  };
+
+  beforeEach(() => {
+    client = new Client();
+    mockQuery = client.query as jest.Mock;
+    mockQuery.mockReset();
+  });
+
+  describe("subscriptionQueries", () => {
+    it("reads the connection string when the role may select it", async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ allowed: true }] })
+        .mockResolvedValueOnce({ rows: [mockSubscription] });
+
+      const result = await subscriptionQueries.query(client, { oids: [9601] });
+
+      expect(result).toEqual([mockSubscription]);
+      expect(mockQuery.mock.calls[0][0]).toContain("has_column_privilege");
+      const query = mockQuery.mock.calls[1][0];
+      expect(query).toContain("s.subconninfo AS subconninfo");
+      expect(query).toContain("s.subdbid = ");
+      expect(query).toContain("s.oid = ANY($1)");
+      expect(mockQuery.mock.calls[1][1]).toEqual([[9601]]);
+    });
+
+    it("skips the connection string when the role may not select it", async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ allowed: false }] })
+        .mockResolvedValueOnce({ rows: [{ ...mockSubscription, subconninfo: null }] });
+
+      const result = await subscriptionQueries.query(client);
+
+      expect(result[0].subconninfo).toBeNull();
+      const query = mockQuery.mock.calls[1][0];
+      expect(query).toContain("NULL::text AS subconninfo");
+      expect(query).not.toContain("s.subconninfo");
+    });
+  });
+
+  describe("createSubscriptionLoaders", () => {
+    it("batches subscription lookups by OID", async () => {
+      const loaders = createSubscriptionLoaders(client);
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ allowed: true }] })
+        .mockResolvedValueOnce({ rows: [mockSubscription] });
+
+      const [found, missing] = await Promise.all([
+        loaders.subscriptionLoader.load(9601),
+        loaders.subscriptionLoader.load(9999),
+      ]);
+
+      expect(mockQuery).toHaveBeenCalledTimes(2);
+      expect(mockQuery.mock.calls[1][1]).toEqual([[9601, 9999]]);
+      expect(found).toEqual(mockSubscription);
+      expect(missing).toBeNull();
+    });
+  });
+});
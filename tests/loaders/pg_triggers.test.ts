@@ -35,18 +35,39 @@ describe("pg_triggers loader", () => {
     oid: 16385,
     tgname: "update_timestamp",
     tgrelid: 16380,
+    tgfoid: 16390,
+    tgtype: 19, // ROW | BEFORE | UPDATE
+    tgenabled: "O",
+    tgattr: [],
+    tgwhen: "(old.* IS DISTINCT FROM new.*)",
+    tgdef:
+      "CREATE TRIGGER update_timestamp BEFORE UPDATE ON public.users FOR EACH ROW WHEN ((old.* IS DISTINCT FROM new.*)) EXECUTE FUNCTION set_updated_at()",
   };
 
   const mockTrigger2: PgTrigger = {
     oid: 16386,
     tgname: "insert_log",
     tgrelid: 16380,
+    tgfoid: 16391,
+    tgtype: 4, // STATEMENT | AFTER | INSERT
+    tgenabled: "O",
+    tgattr: [],
+    tgwhen: null,
+    tgdef:
+      "CREATE TRIGGER insert_log AFTER INSERT ON public.users FOR EACH STATEMENT EXECUTE FUNCTION log_insert()",
   };
 
   const mockTrigger3: PgTrigger = {
     oid: 16387,
     tgname: "delete_log",
     tgrelid: 16381,
+    tgfoid: 16392,
+    tgtype: 8, // STATEMENT | AFTER | DELETE
+    tgenabled: "D",
+    tgattr: [],
+    tgwhen: null,
+    tgdef:
+      "CREATE TRIGGER delete_log AFTER DELETE ON public.orders FOR EACH STATEMENT EXECUTE FUNCTION log_delete()",
   };
 
   beforeEach(() => {
@@ -152,6 +173,17 @@ describe("pg_triggers loader", () => {
           ["public"],
         ]);
       });
+
+      it("loads the trigger definition and WHEN condition", async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [] });
+
+        await triggerQueries.query(client, {});
+
+        const query = mockQuery.mock.calls[0][0];
+        expect(query).toContain("t.tgattr::int2[] AS tgattr");
+        expect(query).toContain("pg_catalog.pg_get_triggerdef(t.oid) AS tgdef");
+        expect(query).toContain("CASE WHEN t.tgqual IS NOT NULL THEN");
+      });
     });
 
     describe("byOid", () => {
@@ -126,6 +126,19 @@ describe("pg_types loader", () => {
       expect(result[0].typname).toBe("user_type");
     });
 
+    it("should filter types by schema OIDs", async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [mockType3],
+      });
+
+      const result = await typeQueries.query(client, { namespaceOids: [2200] });
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(mockQuery.mock.calls[0][0]).toContain("t.typnamespace = ANY($1)");
+      expect(mockQuery.mock.calls[0][1]).toEqual([[2200]]);
+      expect(result).toEqual([mockType3]);
+    });
+
     it("should filter types by type kinds", async () => {
       mockQuery.mockResolvedValueOnce({
         rows: [mockType3],
@@ -313,6 +326,26 @@ describe("pg_types loader", () => {
       });
     });
 
+    describe("typesByNamespaceLoader", () => {
+      it("should group types by namespace OID", async () => {
+        mockQuery.mockResolvedValueOnce({
+          rows: [mockType1, mockType2, mockType3],
+        });
+
+        const [catalog, pub, empty] = await Promise.all([
+          loaders.typesByNamespaceLoader.load(11),
+          loaders.typesByNamespaceLoader.load(2200),
+          loaders.typesByNamespaceLoader.load(99999),
+        ]);
+
+        expect(mockQuery).toHaveBeenCalledTimes(1);
+        expect(mockQuery.mock.calls[0][1]).toEqual([[11, 2200, 99999]]);
+        expect(catalog).toEqual([mockType1, mockType2]);
+        expect(pub).toEqual([mockType3]);
+        expect(empty).toEqual([]);
+      });
+    });
+
     describe("getAllTypes", () => {
       it("should fetch all types", async () => {
         mockQuery.mockResolvedValueOnce({
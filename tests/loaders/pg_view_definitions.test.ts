@@ -0,0 +1,99 @@
+import { Client } from "pg";
+import {
+  createViewDefinitionLoaders,
+  viewDefinitionQueries,
+} from "../../src/loaders/pg_view_definitions.js";
+import type { PgViewDefinition } from "../../src/types.js";
+
+// Mock the pg Client
+jest.mock("pg", () => {
+  const mockQuery = jest.fn();
+  return {
+    Client: jest.fn().mockImplementation(() => ({
+      query: mockQuery,
+      connect: jest.fn(),
+      end: jest.fn(),
+    })),
+  };
+});
+
+describe("pg_view_definitions loader", () => {
+  let client: Client;
+  let mockQuery: jest.Mock;
+
+  // Mock view definitions to use in tests
+  const mockSecureView: PgViewDefinition = {
+    viewrelid: 9901,
+    viewdef: " SELECT id\n   FROM accounts\n  WHERE owner = CURRENT_USER;",
+    checkoption: "local",
+    securitybarrier: true,
+    securityinvoker: false,
+    isupdatable: true,
+  };
+
+  const mockMaterializedView: PgViewDefinition = {
+    viewrelid: 9902,
+    viewdef: " SELECT count(*) AS total\n   FROM accounts;",
+    checkoption: null,
+    securitybarrier: false,
+    securityinvoker: false,
+    isupdatable: false,
+  };
+
+  beforeEach(() => {
+    client = new Client();
+    mockQuery = client.query as jest.Mock;
+    mockQuery.mockReset();
+  });
+
+  describe("viewDefinitionQueries", () => {
+    it("reads definitions and reloptions of views and materialized views", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockSecureView, mockMaterializedView] });
+
+      const result = await viewDefinitionQueries.query(client);
+
+      expect(result).toEqual([mockSecureView, mockMaterializedView]);
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("c.relkind IN ('v', 'm')");
+      expect(query).toContain("pg_catalog.pg_get_viewdef(c.oid, true) AS viewdef");
+      expect(query).toContain("pg_catalog.pg_options_to_table(c.reloptions)");
+      expect(query).toContain("pg_catalog.pg_relation_is_updatable(c.oid, false) & 20");
+      expect(query).toContain(
+        "n.nspname NOT IN ('pg_toast', 'pg_catalog', 'information_schema', 'pg_temp')"
+      );
+    });
+
+    it("filters by relation OIDs", async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockSecureView] });
+
+      await viewDefinitionQueries.query(client, {
+        relationOids: [9901],
+        includeSystemSchemas: true,
+      });
+
+      const query = mockQuery.mock.calls[0][0];
+      expect(query).toContain("c.oid = ANY($1)");
+      expect(query).not.toContain("NOT IN");
+      expect(mockQuery.mock.calls[0][1]).toEqual([[9901]]);
+    });
+  });
+
+  describe("createViewDefinitionLoaders", () => {
+    it("batches view definition lookups by OID", async () => {
+      const loaders = createViewDefinitionLoaders(client);
+      mockQuery.mockResolvedValueOnce({ rows: [mockSecureView, mockMaterializedView] });
+
+      const [matview, view, missing] = await Promise.all([
+        loaders.viewDefinitionLoader.load(9902),
+        loaders.viewDefinitionLoader.load(9901),
+        loaders.viewDefinitionLoader.load(9999),
+      ]);
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(mockQuery.mock.calls[0][1]).toEqual([[9902, 9901, 9999]]);
+      expect(matview).toEqual(mockMaterializedView);
+      expect(view).toEqual(mockSecureView);
+      expect(missing).toBeNull();
+    });
+  });
+});
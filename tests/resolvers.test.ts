@@ -12,8 +12,42 @@ import type {
   PgIndex,
   PgForeignKey,
   PgExtension,
+  PgFunction,
+  PgConstraint,
+  PgSequence,
+  PgPartitionedTable,
+  PgPartition,
+  PgAuthMember,
+  PgForeignDataWrapper,
+  PgForeignServer,
+  PgForeignTable,
+  PgExtensionMember,
+  PgPublication,
+  PgPublicationRel,
+  PgSubscription,
+  PgEventTrigger,
+  PgViewDefinition,
+  PgRule,
+  PgDepend,
+  PgRange,
+  PgDomainConstraint,
+  PgEnumUsage,
+  PgRelationStorage,
+  PgStatUserTable,
+  PgStatUserIndex,
+  PgStatUserFunction,
+  PgColumnStatistics,
+  PgStatisticExt,
+  PgInherits,
+  PgCollation,
+  PgCast,
+  PgOperator,
+  PgAggregate,
 } from "../src/types.js";
 import DataLoader from "dataloader";
+import type { DescriptionKey } from "../src/loaders/pg_descriptions.js";
+import type { ExtensionMemberKey } from "../src/loaders/pg_extension_members.js";
+import type { DependencyKey } from "../src/loaders/pg_depends.js";
 
 function createTestContext(overrides: Partial<ReqContext> = {}): ReqContext {
   const database = { oid: 1, datname: "test_db" };
@@ -27,6 +61,38 @@ function createTestContext(overrides: Partial<ReqContext> = {}): ReqContext {
   const enums: any[] = [];
   const indexes: any[] = [];
   const foreignKeys: any[] = [];
+  const functions: any[] = [];
+  const constraints: any[] = [];
+  const sequences: any[] = [];
+  const partitionedTables: any[] = [];
+  const partitions: any[] = [];
+  const descriptions: any[] = [];
+  const authMembers: any[] = [];
+  const foreignDataWrappers: any[] = [];
+  const foreignServers: any[] = [];
+  const foreignTables: any[] = [];
+  const extensionMembers: any[] = [];
+  const publications: any[] = [];
+  const publicationRels: any[] = [];
+  const subscriptions: any[] = [];
+  const eventTriggers: any[] = [];
+  const viewDefinitions: any[] = [];
+  const rules: any[] = [];
+  const depends: any[] = [];
+  const ranges: any[] = [];
+  const domainConstraints: any[] = [];
+  const enumUsages: any[] = [];
+  const relationStorage: any[] = [];
+  const tableStatistics: any[] = [];
+  const indexStatistics: any[] = [];
+  const functionStatistics: any[] = [];
+  const columnStatistics: any[] = [];
+  const statisticExts: any[] = [];
+  const inherits: any[] = [];
+  const collations: any[] = [];
+  const casts: any[] = [];
+  const operators: any[] = [];
+  const aggregates: any[] = [];
 
   const dataSources = {
     database,
@@ -39,6 +105,11 @@ function createTestContext(overrides: Partial<ReqContext> = {}): ReqContext {
     enums,
     indexes,
     foreignKeys,
+    foreignServers,
+    publications,
+    subscriptions,
+    eventTriggers,
+    casts,
   };
 
   // Create mock DataLoaders
@@ -181,6 +252,11 @@ function createTestContext(overrides: Partial<ReqContext> = {}): ReqContext {
     }
   );
 
+  // Create typesByNamespaceLoader
+  const typesByNamespaceLoader = new DataLoader<number, PgType[]>(async (keys) => {
+    return keys.map((key) => types.filter((t) => t.typnamespace === key));
+  });
+
   // Create enumByTypeIdLoader
   const enumByTypeIdLoader = new DataLoader<number, PgEnum | null>(async (keys) => {
     return keys.map((key) => {
@@ -274,6 +350,271 @@ function createTestContext(overrides: Partial<ReqContext> = {}): ReqContext {
     return keys.map((key) => []);
   });
 
+  // Create function loaders
+  const functionLoader = new DataLoader<number, PgFunction | null>(async (keys) => {
+    return keys.map((key) => {
+      const fn = functions.find((f) => f.oid === key);
+      return fn || null;
+    });
+  });
+
+  const functionsByNamespaceLoader = new DataLoader<number, PgFunction[]>(async (keys) => {
+    return keys.map((key) => functions.filter((f) => f.pronamespace === key));
+  });
+
+  // Create constraint loaders
+  const constraintLoader = new DataLoader<number, PgConstraint | null>(async (keys) => {
+    return keys.map((key) => constraints.find((c) => c.oid === key) || null);
+  });
+
+  const constraintsByRelationLoader = new DataLoader<number, PgConstraint[]>(async (keys) => {
+    return keys.map((key) => constraints.filter((c) => c.conrelid === key));
+  });
+
+  // Create sequence loaders
+  const sequenceLoader = new DataLoader<number, PgSequence | null>(async (keys) => {
+    return keys.map((key) => sequences.find((s) => s.seqrelid === key) || null);
+  });
+
+  const sequencesByOwnerRelationLoader = new DataLoader<number, PgSequence[]>(async (keys) => {
+    return keys.map((key) => sequences.filter((s) => s.ownerrelid === key));
+  });
+
+  // Create partitioned table loaders
+  const partitionedTableLoader = new DataLoader<number, PgPartitionedTable | null>(async (keys) => {
+    return keys.map((key) => partitionedTables.find((t) => t.partrelid === key) || null);
+  });
+
+  // Create partition loaders
+  const partitionLoader = new DataLoader<number, PgPartition | null>(async (keys) => {
+    return keys.map((key) => partitions.find((p) => p.inhrelid === key) || null);
+  });
+
+  const partitionsByParentLoader = new DataLoader<number, PgPartition[]>(async (keys) => {
+    return keys.map((key) => partitions.filter((p) => p.inhparent === key));
+  });
+
+  // Create description loaders
+  const descriptionLoader = new DataLoader<DescriptionKey, string | null, string>(async (keys) => {
+    return keys.map(
+      (key) =>
+        descriptions.find(
+          (d) =>
+            d.classoid === key.classoid && d.objoid === key.objoid && d.objsubid === key.objsubid
+        )?.description ?? null
+    );
+  });
+
+  // Create role membership loaders
+  const membershipsByMemberLoader = new DataLoader<number, PgAuthMember[]>(async (keys) => {
+    return keys.map((key) => authMembers.filter((m) => m.member === key));
+  });
+
+  const membershipsByRoleLoader = new DataLoader<number, PgAuthMember[]>(async (keys) => {
+    return keys.map((key) => authMembers.filter((m) => m.roleid === key));
+  });
+
+  // Create foreign data wrapper loaders
+  const foreignDataWrapperLoader = new DataLoader<number, PgForeignDataWrapper | null>(
+    async (keys) => {
+      return keys.map((key) => foreignDataWrappers.find((fdw) => fdw.oid === key) || null);
+    }
+  );
+
+  // Create foreign server loaders
+  const foreignServerLoader = new DataLoader<number, PgForeignServer | null>(async (keys) => {
+    return keys.map((key) => foreignServers.find((srv) => srv.oid === key) || null);
+  });
+
+  const foreignServersByWrapperLoader = new DataLoader<number, PgForeignServer[]>(async (keys) => {
+    return keys.map((key) => foreignServers.filter((srv) => srv.srvfdw === key));
+  });
+
+  // Create foreign table loaders
+  const foreignTableLoader = new DataLoader<number, PgForeignTable | null>(async (keys) => {
+    return keys.map((key) => foreignTables.find((ft) => ft.ftrelid === key) || null);
+  });
+
+  const foreignTablesByServerLoader = new DataLoader<number, PgForeignTable[]>(async (keys) => {
+    return keys.map((key) => foreignTables.filter((ft) => ft.ftserver === key));
+  });
+
+  // Create extension member loaders
+  const extensionMembersByExtensionLoader = new DataLoader<number, PgExtensionMember[]>(
+    async (keys) => {
+      return keys.map((key) => extensionMembers.filter((m) => m.extoid === key));
+    }
+  );
+
+  const extensionOwnerLoader = new DataLoader<ExtensionMemberKey, number | null, string>(
+    async (keys) => {
+      return keys.map(
+        (key) =>
+          extensionMembers.find((m) => m.classid === key.classid && m.objid === key.objid)
+            ?.extoid ?? null
+      );
+    }
+  );
+
+  // Create publication loaders
+  const publicationLoader = new DataLoader<number, PgPublication | null>(async (keys) => {
+    return keys.map((key) => publications.find((pub) => pub.oid === key) || null);
+  });
+
+  // Create publication table loaders
+  const publicationRelsByPublicationLoader = new DataLoader<number, PgPublicationRel[]>(
+    async (keys) => {
+      return keys.map((key) => publicationRels.filter((rel) => rel.prpubid === key));
+    }
+  );
+
+  const publicationRelsByRelationLoader = new DataLoader<number, PgPublicationRel[]>(
+    async (keys) => {
+      return keys.map((key) => publicationRels.filter((rel) => rel.prrelid === key));
+    }
+  );
+
+  // Create subscription loaders
+  const subscriptionLoader = new DataLoader<number, PgSubscription | null>(async (keys) => {
+    return keys.map((key) => subscriptions.find((sub) => sub.oid === key) || null);
+  });
+
+  // Create event trigger loaders
+  const eventTriggerLoader = new DataLoader<number, PgEventTrigger | null>(async (keys) => {
+    return keys.map((key) => eventTriggers.find((evt) => evt.oid === key) || null);
+  });
+
+  // Create view definition loaders
+  const viewDefinitionLoader = new DataLoader<number, PgViewDefinition | null>(async (keys) => {
+    return keys.map((key) => viewDefinitions.find((def) => def.viewrelid === key) || null);
+  });
+
+  // Create rule loaders
+  const ruleLoader = new DataLoader<number, PgRule | null>(async (keys) => {
+    return keys.map((key) => rules.find((rule) => rule.oid === key) || null);
+  });
+
+  const rulesByRelationLoader = new DataLoader<number, PgRule[]>(async (keys) => {
+    return keys.map((key) => rules.filter((rule) => rule.ev_class === key));
+  });
+
+  // Create dependency loaders
+  const dependentsLoader = new DataLoader<DependencyKey, PgDepend[], string>(async (keys) => {
+    return keys.map((key) =>
+      depends.filter((d) => d.refclassid === key.classid && d.refobjid === key.objid)
+    );
+  });
+
+  const dependenciesLoader = new DataLoader<DependencyKey, PgDepend[], string>(async (keys) => {
+    return keys.map((key) =>
+      depends.filter((d) => d.classid === key.classid && d.objid === key.objid)
+    );
+  });
+
+  // Create range loaders
+  const rangeLoader = new DataLoader<number, PgRange | null>(async (keys) => {
+    return keys.map((key) => ranges.find((r) => r.rngtypid === key) || null);
+  });
+
+  const rangeByMultirangeLoader = new DataLoader<number, PgRange | null>(async (keys) => {
+    return keys.map((key) => ranges.find((r) => r.rngmultitypid === key) || null);
+  });
+
+  // Create domain constraint loaders
+  const domainConstraintsByTypeLoader = new DataLoader<number, PgDomainConstraint[]>(
+    async (keys) => {
+      return keys.map((key) => domainConstraints.filter((c) => c.contypid === key));
+    }
+  );
+
+  // Create enum usage loaders
+  const enumUsagesByTypeLoader = new DataLoader<number, PgEnumUsage[]>(async (keys) => {
+    return keys.map((key) => enumUsages.filter((u) => u.enumtypid === key));
+  });
+
+  // Create relation storage loaders
+  const relationStorageLoader = new DataLoader<number, PgRelationStorage | null>(async (keys) => {
+    return keys.map((key) => relationStorage.find((s) => s.relid === key) || null);
+  });
+
+  // Create table statistics loaders
+  const tableStatisticsLoader = new DataLoader<number, PgStatUserTable | null>(async (keys) => {
+    return keys.map((key) => tableStatistics.find((s) => s.relid === key) || null);
+  });
+
+  // Create index statistics loaders
+  const indexStatisticsLoader = new DataLoader<number, PgStatUserIndex | null>(async (keys) => {
+    return keys.map((key) => indexStatistics.find((s) => s.indexrelid === key) || null);
+  });
+
+  // Create function statistics loaders
+  const functionStatisticsLoader = new DataLoader<number, PgStatUserFunction | null>(
+    async (keys) => {
+      return keys.map((key) => functionStatistics.find((s) => s.funcid === key) || null);
+    }
+  );
+
+  // Create column statistics loaders
+  const columnStatisticsByRelationLoader = new DataLoader<number, PgColumnStatistics[]>(
+    async (keys) => {
+      return keys.map((key) => columnStatistics.filter((s) => s.attrelid === key));
+    }
+  );
+
+  // Create extended statistics loaders
+  const statisticExtLoader = new DataLoader<number, PgStatisticExt | null>(async (keys) => {
+    return keys.map((key) => statisticExts.find((s) => s.oid === key) || null);
+  });
+
+  const statisticExtByRelationLoader = new DataLoader<number, PgStatisticExt[]>(async (keys) => {
+    return keys.map((key) => statisticExts.filter((s) => s.stxrelid === key));
+  });
+
+  const statisticExtByNamespaceLoader = new DataLoader<number, PgStatisticExt[]>(async (keys) => {
+    return keys.map((key) => statisticExts.filter((s) => s.stxnamespace === key));
+  });
+
+  // Create inheritance loaders
+  const inheritsByChildLoader = new DataLoader<number, PgInherits[]>(async (keys) => {
+    return keys.map((key) => inherits.filter((i) => i.inhrelid === key));
+  });
+
+  const inheritsByParentLoader = new DataLoader<number, PgInherits[]>(async (keys) => {
+    return keys.map((key) => inherits.filter((i) => i.inhparent === key));
+  });
+
+  // Create collation loaders
+  const collationLoader = new DataLoader<number, PgCollation | null>(async (keys) => {
+    return keys.map((key) => collations.find((c) => c.oid === key) || null);
+  });
+
+  const collationsByNamespaceLoader = new DataLoader<number, PgCollation[]>(async (keys) => {
+    return keys.map((key) => collations.filter((c) => c.collnamespace === key));
+  });
+
+  // Create cast loaders
+  const castLoader = new DataLoader<number, PgCast | null>(async (keys) => {
+    return keys.map((key) => casts.find((c) => c.oid === key) || null);
+  });
+
+  // Create operator loaders
+  const operatorLoader = new DataLoader<number, PgOperator | null>(async (keys) => {
+    return keys.map((key) => operators.find((o) => o.oid === key) || null);
+  });
+
+  const operatorsByNamespaceLoader = new DataLoader<number, PgOperator[]>(async (keys) => {
+    return keys.map((key) => operators.filter((o) => o.oprnamespace === key));
+  });
+
+  // Create aggregate loaders
+  const aggregateLoader = new DataLoader<number, PgAggregate | null>(async (keys) => {
+    return keys.map((key) => aggregates.find((a) => a.aggfnoid === key) || null);
+  });
+
+  const aggregatesByNamespaceLoader = new DataLoader<number, PgAggregate[]>(async (keys) => {
+    return keys.map((key) => aggregates.filter((a) => a.aggnamespace === key));
+  });
+
   return {
     resolveDatabase: jest.fn().mockResolvedValue(database),
     resolveNamespaces: jest
@@ -323,8 +664,32 @@ function createTestContext(overrides: Partial<ReqContext> = {}): ReqContext {
     resolveExtensions: jest
       .fn()
       .mockImplementation((filter?: any) => Promise.resolve(filter ? [] : [])),
+    resolveForeignServers: jest
+      .fn()
+      .mockImplementation((filter?: any) =>
+        Promise.resolve(filter ? foreignServers.filter(filter) : foreignServers)
+      ),
+    resolvePublications: jest
+      .fn()
+      .mockImplementation((filter?: any) =>
+        Promise.resolve(filter ? publications.filter(filter) : publications)
+      ),
+    resolveSubscriptions: jest
+      .fn()
+      .mockImplementation((filter?: any) =>
+        Promise.resolve(filter ? subscriptions.filter(filter) : subscriptions)
+      ),
+    resolveEventTriggers: jest
+      .fn()
+      .mockImplementation((filter?: any) =>
+        Promise.resolve(filter ? eventTriggers.filter(filter) : eventTriggers)
+      ),
+    resolveCasts: jest
+      .fn()
+      .mockImplementation((filter?: any) => Promise.resolve(filter ? casts.filter(filter) : casts)),
     typeLoader,
     typeByNameLoader,
+    typesByNamespaceLoader,
     namespaceLoader,
     namespaceByNameLoader,
     classLoader,
@@ -348,6 +713,56 @@ function createTestContext(overrides: Partial<ReqContext> = {}): ReqContext {
     extensionLoader,
     extensionByNameLoader,
     extensionsBySchemaLoader,
+    functionLoader,
+    functionsByNamespaceLoader,
+    constraintLoader,
+    constraintsByRelationLoader,
+    sequenceLoader,
+    sequencesByOwnerRelationLoader,
+    partitionedTableLoader,
+    partitionLoader,
+    partitionsByParentLoader,
+    descriptionLoader,
+    membershipsByMemberLoader,
+    membershipsByRoleLoader,
+    foreignDataWrapperLoader,
+    foreignServerLoader,
+    foreignServersByWrapperLoader,
+    foreignTableLoader,
+    foreignTablesByServerLoader,
+    extensionMembersByExtensionLoader,
+    extensionOwnerLoader,
+    publicationLoader,
+    publicationRelsByPublicationLoader,
+    publicationRelsByRelationLoader,
+    subscriptionLoader,
+    eventTriggerLoader,
+    viewDefinitionLoader,
+    ruleLoader,
+    rulesByRelationLoader,
+    dependentsLoader,
+    dependenciesLoader,
+    rangeLoader,
+    rangeByMultirangeLoader,
+    domainConstraintsByTypeLoader,
+    enumUsagesByTypeLoader,
+    relationStorageLoader,
+    tableStatisticsLoader,
+    indexStatisticsLoader,
+    functionStatisticsLoader,
+    columnStatisticsByRelationLoader,
+    statisticExtLoader,
+    statisticExtByRelationLoader,
+    statisticExtByNamespaceLoader,
+    inheritsByChildLoader,
+    inheritsByParentLoader,
+    collationLoader,
+    collationsByNamespaceLoader,
+    castLoader,
+    operatorLoader,
+    operatorsByNamespaceLoader,
+    aggregateLoader,
+    aggregatesByNamespaceLoader,
     dataSources,
     client: {
       query: jest.fn().mockResolvedValue({ rows: [] }),
@@ -359,6 +774,7 @@ function createTestContext(overrides: Partial<ReqContext> = {}): ReqContext {
       on: jest.fn(),
       off: jest.fn(),
     } as any,
+    options: {},
     ...overrides,
   };
 }